@@ -0,0 +1,156 @@
+/**
+ * @fileOverview Calibrates `IDENTITY_MIN_SIMILARITY` for the face identity check.
+ *
+ * Usage: `npm run eval:identity -- [--photos <dir>]`
+ *
+ * Runs the configured face analyser over photos of real people and scores
+ * three kinds of pair: each face against itself after a try-on-like edit of
+ * the rest of the photo (clothes repainted, re-exposed, re-encoded), which
+ * must pass; each face against a blurred copy of itself, which must fail;
+ * and every face against every other face, which must fail. It prints the
+ * spread of each and the threshold halfway between the weakest kept face
+ * and the strongest changed or different one.
+ *
+ * The golden eval photos are faceless figures, so by default the sample
+ * group photos bundled with `@vladmandic/face-api` are used. `--photos` points at
+ * another directory of JPG or PNG photos; every face across them must belong
+ * to a different person.
+ */
+
+import {readdir, readFile} from 'node:fs/promises';
+import path from 'node:path';
+import {parseArgs} from 'node:util';
+import sharp from 'sharp';
+import {decodeImageDataUri, toImageDataUri} from '@/ai/images/data-uri';
+import {normaliseUserPhoto} from '@/ai/images/normalize-user-photo';
+import {getFaceAnalyser, IDENTITY_MIN_SIMILARITY, type DetectedFace, type FaceAnalyser} from '@/ai/verification/face-identity';
+
+const DEFAULT_PHOTOS_DIR = path.join(process.cwd(), 'node_modules', '@vladmandic', 'face-api', 'demo');
+/** The demo directory also holds screenshots that repeat the sample faces, which would pair people with themselves. */
+const DEFAULT_PHOTOS = /^sample\d+\.jpg$/;
+const PHOTOS = /\.(jpe?g|png)$/i;
+/** Strong enough that the face is plainly no longer recognisable. */
+const CHANGED_FACE_BLUR_SIGMA = 8;
+
+interface LabelledFace extends DetectedFace {
+  photo: string;
+}
+
+/** The face in `faces` nearest `target`, if one overlaps it. */
+function matchFace(faces: DetectedFace[], target: DetectedFace): DetectedFace | undefined {
+  const centre = (face: DetectedFace) => [face.box.left + face.box.width / 2, face.box.top + face.box.height / 2];
+  const [x, y] = centre(target);
+  const distance = (face: DetectedFace) => Math.hypot(centre(face)[0] - x, centre(face)[1] - y);
+  return faces.filter(face => distance(face) <= target.box.width).sort((a, b) => distance(a) - distance(b))[0];
+}
+
+/** Repaints everything below the lowest face, shifts exposure and re-encodes, as a try-on would. */
+async function simulateTryOn(photo: Buffer, faces: DetectedFace[]): Promise<Buffer> {
+  const {width = 0, height = 0} = await sharp(photo).metadata();
+  const top = Math.round(Math.max(...faces.map(face => face.box.top + face.box.height)) * height);
+  const garment = await sharp({create: {width, height: height - top, channels: 3, background: '#c0392b'}}).png().toBuffer();
+  return sharp(photo)
+    .composite([{input: garment, left: 0, top}])
+    .modulate({brightness: 1.05})
+    .jpeg({quality: 75})
+    .toBuffer();
+}
+
+async function blurFace(photo: Buffer, face: DetectedFace): Promise<Buffer> {
+  const {width = 0, height = 0} = await sharp(photo).metadata();
+  const left = Math.max(0, Math.round(face.box.left * width));
+  const top = Math.max(0, Math.round(face.box.top * height));
+  const region = {
+    left,
+    top,
+    width: Math.min(width - left, Math.round(face.box.width * width)),
+    height: Math.min(height - top, Math.round(face.box.height * height)),
+  };
+  const blurred = await sharp(photo).extract(region).blur(CHANGED_FACE_BLUR_SIGMA).toBuffer();
+  return sharp(photo).composite([{input: blurred, left, top}]).jpeg({quality: 90}).toBuffer();
+}
+
+function describe(label: string, values: number[]): string {
+  if (values.length === 0) {
+    return `${label}: no pairs`;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  return `${label}: ${values.length} pairs, min ${sorted[0].toFixed(3)}, median ${median.toFixed(3)}, max ${sorted.at(-1)!.toFixed(3)}`;
+}
+
+async function scorePhoto(analyser: FaceAnalyser, name: string, photo: Buffer) {
+  const faces = await analyser.analyse(photo);
+  const kept: number[] = [];
+  const changed: number[] = [];
+  if (faces.length > 0) {
+    const edited = await analyser.analyse(await simulateTryOn(photo, faces));
+    for (const face of faces) {
+      const match = matchFace(edited, face);
+      kept.push(match ? analyser.similarity(face.descriptor, match.descriptor) : 0);
+    }
+  }
+  for (const face of faces) {
+    const match = matchFace(await analyser.analyse(await blurFace(photo, face)), face);
+    // A face the detector can no longer find scores 0, as in the identity check.
+    changed.push(match ? analyser.similarity(face.descriptor, match.descriptor) : 0);
+  }
+  console.log(`  ${name}: ${faces.length} faces`);
+  return {faces: faces.map((face): LabelledFace => ({...face, photo: name})), kept, changed};
+}
+
+async function main() {
+  const {values} = parseArgs({options: {photos: {type: 'string'}}});
+  const photosDir = path.resolve(values.photos ?? DEFAULT_PHOTOS_DIR);
+  const pattern = values.photos ? PHOTOS : DEFAULT_PHOTOS;
+  const files = (await readdir(photosDir)).filter(file => pattern.test(file)).sort();
+  if (files.length === 0) {
+    throw new Error(`No JPG or PNG photos in ${photosDir}.`);
+  }
+
+  const analyser = getFaceAnalyser();
+  console.log(`Calibrating ${analyser.id} on ${files.length} photos in ${path.relative(process.cwd(), photosDir)}.`);
+  const faces: LabelledFace[] = [];
+  const kept: number[] = [];
+  const changed: number[] = [];
+  for (const file of files) {
+    const bytes = await readFile(path.join(photosDir, file));
+    const mimeType = /\.png$/i.test(file) ? 'image/png' : 'image/jpeg';
+    // The identity check sees normalised photos, so calibrate on the same.
+    const {dataUri} = await normaliseUserPhoto(toImageDataUri(mimeType, bytes));
+    const result = await scorePhoto(analyser, file, decodeImageDataUri(dataUri));
+    faces.push(...result.faces);
+    kept.push(...result.kept);
+    changed.push(...result.changed);
+  }
+  const different: number[] = [];
+  for (let i = 0; i < faces.length; i++) {
+    for (let j = i + 1; j < faces.length; j++) {
+      different.push(analyser.similarity(faces[i].descriptor, faces[j].descriptor));
+    }
+  }
+
+  console.log(describe('Kept face (must pass)', kept));
+  console.log(describe('Blurred face (must fail)', changed));
+  console.log(describe('Different person (must fail)', different));
+  if (kept.length === 0 || changed.length + different.length === 0) {
+    throw new Error('Not enough faces to calibrate; use photos with at least two clearly visible faces.');
+  }
+  const weakestKept = Math.min(...kept);
+  const strongestImpostor = Math.max(...changed, ...different);
+  const errors =
+    kept.filter(value => value < IDENTITY_MIN_SIMILARITY).length +
+    [...changed, ...different].filter(value => value >= IDENTITY_MIN_SIMILARITY).length;
+  console.log(`Current IDENTITY_MIN_SIMILARITY ${IDENTITY_MIN_SIMILARITY}: ${errors} misclassified pairs.`);
+  if (weakestKept <= strongestImpostor) {
+    console.log(`The classes overlap (${weakestKept.toFixed(3)} <= ${strongestImpostor.toFixed(3)}); no threshold separates them.`);
+    process.exitCode = 1;
+    return;
+  }
+  console.log(`Suggested IDENTITY_MIN_SIMILARITY: ${((weakestKept + strongestImpostor) / 2).toFixed(2)}.`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
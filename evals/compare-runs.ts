@@ -0,0 +1,146 @@
+/**
+ * @fileOverview Writes a markdown report comparing two eval runs.
+ *
+ * Usage: `npm run eval:compare -- <baseline> <candidate> [--out <file>] [--fail-on-regression]`
+ *
+ * Runs are given by label (a directory under `evals/runs/`) or by the path of
+ * a `results.json`. The report compares the summary means and each case's
+ * best candidate, and flags moves in the wrong direction beyond a small
+ * tolerance as regressions. With `--fail-on-regression` the script exits
+ * non-zero when any are found, so it can gate CI.
+ */
+
+import {writeFile} from 'node:fs/promises';
+import path from 'node:path';
+import {parseArgs} from 'node:util';
+import {RUNS_DIR, readEvalRun, type EvalRun} from './results';
+
+/** Relative change, against the baseline, below which a difference counts as noise. */
+const REGRESSION_TOLERANCE = 0.02;
+/** Absolute change below which a difference counts as noise, for metrics near zero. */
+const ABSOLUTE_TOLERANCE = 0.005;
+
+type Verdict = 'improved' | 'regressed' | 'unchanged' | 'n/a';
+
+const VERDICT_LABELS: Record<Verdict, string> = {
+  improved: 'improved',
+  regressed: '**regressed**',
+  unchanged: '',
+  'n/a': 'n/a',
+};
+
+function judge(baseline: number | undefined, candidate: number | undefined, higherIsBetter: boolean): Verdict {
+  if (baseline === undefined || candidate === undefined) {
+    return 'n/a';
+  }
+  const delta = candidate - baseline;
+  if (Math.abs(delta) <= Math.max(ABSOLUTE_TOLERANCE, Math.abs(baseline) * REGRESSION_TOLERANCE)) {
+    return 'unchanged';
+  }
+  return delta > 0 === higherIsBetter ? 'improved' : 'regressed';
+}
+
+function format(value: number | undefined): string {
+  if (value === undefined) return '–';
+  return Math.abs(value) >= 100 ? value.toFixed(0) : value.toFixed(3);
+}
+
+function formatDelta(baseline: number | undefined, candidate: number | undefined): string {
+  if (baseline === undefined || candidate === undefined) return '–';
+  const delta = candidate - baseline;
+  return `${delta >= 0 ? '+' : ''}${format(delta)}`;
+}
+
+function describeRun(run: EvalRun): string {
+  const prompt = run.promptVersion ?? 'experiment-assigned prompt';
+  const colour = run.correctColour ? ', colour-corrected' : '';
+  return `\`${run.label}\` (${run.mode}, ${run.model}, ${prompt}${colour}, ${run.startedAt})`;
+}
+
+function buildReport(baseline: EvalRun, candidate: EvalRun): {markdown: string; regressions: number} {
+  let regressions = 0;
+  const lines = [
+    `# Try-on eval: ${baseline.label} vs ${candidate.label}`,
+    '',
+    `- Baseline: ${describeRun(baseline)}`,
+    `- Candidate: ${describeRun(candidate)}`,
+    '',
+    '## Summary',
+    '',
+    '| Metric | Baseline | Candidate | Δ | |',
+    '| --- | ---: | ---: | ---: | --- |',
+  ];
+
+  const errorVerdict = judge(baseline.summary.errorRate, candidate.summary.errorRate, false);
+  if (errorVerdict === 'regressed') regressions++;
+  lines.push(
+    `| Error rate | ${format(baseline.summary.errorRate)} | ${format(candidate.summary.errorRate)} | ${formatDelta(baseline.summary.errorRate, candidate.summary.errorRate)} | ${VERDICT_LABELS[errorVerdict]} |`
+  );
+
+  const metricIds = [...new Set([...Object.keys(baseline.summary.metrics), ...Object.keys(candidate.summary.metrics)])];
+  for (const id of metricIds) {
+    const info = candidate.summary.metrics[id] ?? baseline.summary.metrics[id];
+    const before = baseline.summary.metrics[id]?.mean;
+    const after = candidate.summary.metrics[id]?.mean;
+    const verdict = judge(before, after, info.higherIsBetter);
+    if (verdict === 'regressed') regressions++;
+    lines.push(`| ${info.label} | ${format(before)} | ${format(after)} | ${formatDelta(before, after)} | ${VERDICT_LABELS[verdict]} |`);
+  }
+
+  lines.push('', '## Best candidate per case', '');
+  lines.push(`| Case | ${metricIds.map(id => (candidate.summary.metrics[id] ?? baseline.summary.metrics[id]).label).join(' | ')} |`);
+  lines.push(`| --- | ${metricIds.map(() => '---').join(' | ')} |`);
+  const caseIds = [...new Set([...baseline.cases.map(result => result.id), ...candidate.cases.map(result => result.id)])];
+  for (const caseId of caseIds) {
+    const before = baseline.cases.find(result => result.id === caseId);
+    const after = candidate.cases.find(result => result.id === caseId);
+    if (after?.error || !after) {
+      lines.push(`| ${caseId} | ${after ? `failed: ${after.error?.kind}` : 'missing from candidate run'} |`);
+      continue;
+    }
+    const cells = metricIds.map(id => {
+      const info = candidate.summary.metrics[id] ?? baseline.summary.metrics[id];
+      const beforeValue = before?.candidates[0]?.metrics[id];
+      const afterValue = after.candidates[0]?.metrics[id];
+      const verdict = judge(beforeValue, afterValue, info.higherIsBetter);
+      const cell = `${format(afterValue)} (${formatDelta(beforeValue, afterValue)})`;
+      return verdict === 'regressed' ? `**${cell}**` : cell;
+    });
+    lines.push(`| ${caseId} | ${cells.join(' | ')} |`);
+  }
+
+  lines.push(
+    '',
+    regressions
+      ? `${regressions} summary metric(s) regressed beyond ${REGRESSION_TOLERANCE * 100}% of the baseline.`
+      : 'No summary metric regressed.'
+  );
+  return {markdown: lines.join('\n') + '\n', regressions};
+}
+
+async function main() {
+  const {values, positionals} = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: {type: 'string'},
+      'fail-on-regression': {type: 'boolean', default: false},
+    },
+  });
+  if (positionals.length !== 2) {
+    throw new Error('Usage: npm run eval:compare -- <baseline> <candidate> [--out <file>] [--fail-on-regression]');
+  }
+  const [baseline, candidate] = await Promise.all(positionals.map(readEvalRun));
+  const {markdown, regressions} = buildReport(baseline, candidate);
+  const out = values.out ?? path.join(RUNS_DIR, `compare-${baseline.label}-vs-${candidate.label}.md`);
+  await writeFile(out, markdown);
+  console.log(markdown);
+  console.log(`Wrote ${path.relative(process.cwd(), out)}.`);
+  if (regressions && values['fail-on-regression']) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
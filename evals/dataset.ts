@@ -0,0 +1,78 @@
+/**
+ * @fileOverview Loads the golden dataset of user photo and product pairs.
+ *
+ * - loadGoldenDataset - Reads `golden/dataset.json` and resolves each case's images to data URIs.
+ * - GoldenCase - One user photo and item pair, with its images loaded.
+ */
+
+import {readFile} from 'node:fs/promises';
+import path from 'node:path';
+import {toImageDataUri} from '@/ai/images/data-uri';
+import {GARMENT_REGIONS, getProductById, type GarmentRegion} from '@/lib/products';
+
+export const GOLDEN_DIR = path.join(__dirname, 'golden');
+
+interface GoldenCaseEntry {
+  id: string;
+  /** Catalogue product the case stands in for; its image is used when `itemImage` is omitted. */
+  productId?: string;
+  garmentRegion?: GarmentRegion;
+  userImage: string;
+  itemImage?: string;
+  notes?: string;
+}
+
+export interface GoldenCase {
+  id: string;
+  productId?: string;
+  garmentRegion: GarmentRegion;
+  /** Data URI of the user photo. */
+  userImage: string;
+  /** Data URI of a local item image, or the catalogue product's URL. */
+  itemImage: string;
+  notes?: string;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+async function readImageAsDataUri(relativePath: string): Promise<string> {
+  const mimeType = MIME_TYPES[path.extname(relativePath).toLowerCase()];
+  if (!mimeType) {
+    throw new Error(`Unsupported golden image type: ${relativePath}`);
+  }
+  return toImageDataUri(mimeType, await readFile(path.join(GOLDEN_DIR, relativePath)));
+}
+
+async function resolveCase(entry: GoldenCaseEntry): Promise<GoldenCase> {
+  const product = entry.productId ? getProductById(entry.productId) : undefined;
+  if (entry.productId && !product) {
+    throw new Error(`Golden case "${entry.id}" references unknown product "${entry.productId}".`);
+  }
+  const garmentRegion = entry.garmentRegion ?? product?.region;
+  if (!garmentRegion || !GARMENT_REGIONS.includes(garmentRegion)) {
+    throw new Error(`Golden case "${entry.id}" needs a garmentRegion or a productId.`);
+  }
+  const itemImage = entry.itemImage ? await readImageAsDataUri(entry.itemImage) : product?.imageUrl;
+  if (!itemImage) {
+    throw new Error(`Golden case "${entry.id}" needs an itemImage or a productId.`);
+  }
+  return {
+    id: entry.id,
+    productId: entry.productId,
+    garmentRegion,
+    userImage: await readImageAsDataUri(entry.userImage),
+    itemImage,
+    notes: entry.notes,
+  };
+}
+
+export async function loadGoldenDataset(filter?: string[]): Promise<GoldenCase[]> {
+  const {cases} = JSON.parse(await readFile(path.join(GOLDEN_DIR, 'dataset.json'), 'utf8')) as {cases: GoldenCaseEntry[]};
+  const selected = filter?.length ? cases.filter(entry => filter.includes(entry.id)) : cases;
+  return Promise.all(selected.map(resolveCase));
+}
@@ -0,0 +1,151 @@
+/**
+ * @fileOverview A deterministic local stand-in for the Gemini API, for recording fixtures without a live key.
+ *
+ * `installGeminiStandIn` replaces the global `fetch` for requests to the
+ * Gemini API and answers them in the API's own wire format, both plain
+ * `generateContent` JSON and `streamGenerateContent` server-sent events, so
+ * the whole stack above it (the Google AI SDK, the Genkit plugin and the
+ * record/replay middleware) runs unchanged. Each call site gets a plausible
+ * answer:
+ *
+ * - validation and judging get fixed, passing scores in their output schemas;
+ * - garment isolation gets the product image back on a white background;
+ * - try-on gets the product composited onto the prompt's garment region by
+ *   the offline mock provider.
+ *
+ * The answers say they come from the stand-in, so fixtures recorded this way
+ * are easy to tell apart from live ones.
+ *
+ * - installGeminiStandIn - Routes Gemini API requests to the stand-in; returns a function that undoes it.
+ */
+
+import sharp from 'sharp';
+import {decodeImageDataUri, toImageDataUri} from '@/ai/images/data-uri';
+import {listPromptTemplates} from '@/ai/prompts/registry';
+import {mockProvider} from '@/ai/providers/mock';
+import {GARMENT_REGIONS, type GarmentRegion} from '@/lib/products';
+
+const GEMINI_API_HOST = 'generativelanguage.googleapis.com';
+const STAND_IN_NOTE = 'Local stand-in answer, not a real model assessment.';
+
+interface Part {
+  text?: string;
+  inlineData?: {mimeType: string; data: string};
+}
+
+interface GeminiRequest {
+  contents: {role: string; parts: Part[]}[];
+}
+
+const check = (score: number, detail: string) => ({score, detail: `${detail} (${STAND_IN_NOTE})`});
+
+function assessPhoto() {
+  return {
+    pose: check(0.9, 'The person faces the camera upright.'),
+    framing: check(0.9, 'The person is centred and fills the frame.'),
+    body_coverage: check(0.9, 'The required part of the body is in frame.'),
+    lighting: check(0.9, 'The lighting is even.'),
+    occlusion: check(0.9, 'Nothing covers the required part of the body.'),
+    multiple_people: check(1, 'Exactly one person is visible.'),
+    regions: [{kind: 'face', label: 'Face', box_2d: [60, 400, 200, 600]}],
+    person_box_2d: [40, 200, 990, 800],
+    tilt_degrees: 0,
+    suggestions: '',
+  };
+}
+
+function judgeTryOn() {
+  const criterion = (score: number, explanation: string) => ({score, explanation: `${explanation} (${STAND_IN_NOTE})`});
+  return {
+    garment_fidelity: criterion(0.85, 'The item keeps its colour and shape.'),
+    identity_preservation: criterion(0.9, 'The person and background are unchanged.'),
+    realism: criterion(0.8, 'The item sits plausibly on the body.'),
+    artifacts: criterion(0.9, 'No visible defects.'),
+    summary: `A convincing try-on. (${STAND_IN_NOTE})`,
+  };
+}
+
+/** The garment region a try-on prompt was rendered for, found by rendering every template for every region. */
+function regionOfPrompt(prompt: string): GarmentRegion {
+  for (const template of listPromptTemplates()) {
+    const region = GARMENT_REGIONS.find(candidate => template.render(candidate) === prompt);
+    if (region) {
+      return region;
+    }
+  }
+  throw new Error('The Gemini stand-in does not recognise this try-on prompt.');
+}
+
+async function isolateItem(item: Part['inlineData'] & {}): Promise<Part> {
+  const bytes = await sharp(Buffer.from(item.data, 'base64')).flatten({background: '#ffffff'}).png().toBuffer();
+  return {inlineData: {mimeType: 'image/png', data: bytes.toString('base64')}};
+}
+
+async function composeTryOn(user: Part['inlineData'] & {}, item: Part['inlineData'] & {}, prompt: string): Promise<Part> {
+  const {generatedImage} = await mockProvider.generate({
+    model: 'mock',
+    userImage: toImageDataUri(user.mimeType, Buffer.from(user.data, 'base64')),
+    itemImage: toImageDataUri(item.mimeType, Buffer.from(item.data, 'base64')),
+    garmentRegion: regionOfPrompt(prompt),
+    prompt,
+    temperature: 0,
+    candidateIndex: 0,
+  });
+  // JPEG keeps the recorded fixtures small.
+  const bytes = await sharp(decodeImageDataUri(generatedImage)).jpeg({quality: 85}).toBuffer();
+  return {inlineData: {mimeType: 'image/jpeg', data: bytes.toString('base64')}};
+}
+
+async function answer(model: string, request: GeminiRequest): Promise<Part[]> {
+  const parts = request.contents.flatMap(content => content.parts);
+  const images = parts.flatMap(part => (part.inlineData ? [part.inlineData] : []));
+  const text = parts.flatMap(part => (part.text ? [part.text] : [])).join('\n');
+
+  if (model.includes('image-generation')) {
+    if (images.length === 1 && text.includes('Extract the')) {
+      return [{text: 'Here is the isolated item.'}, await isolateItem(images[0])];
+    }
+    if (images.length === 2) {
+      const prompt = parts.find(part => part.text)?.text ?? '';
+      return [{text: 'Here is the try-on.'}, await composeTryOn(images[0], images[1], prompt)];
+    }
+  } else if (text.includes('AI image validator') && images.length === 1) {
+    return [{text: JSON.stringify(assessPhoto())}];
+  } else if (text.includes('quality reviewer') && images.length === 3) {
+    return [{text: JSON.stringify(judgeTryOn())}];
+  }
+  throw new Error(`The Gemini stand-in has no answer for this ${model} request.`);
+}
+
+function toResponse(parts: Part[], request: GeminiRequest) {
+  const promptTokenCount = request.contents.flatMap(content => content.parts).length * 258;
+  const candidatesTokenCount = parts.length * 258;
+  return {
+    candidates: [{content: {role: 'model', parts}, finishReason: 'STOP', index: 0}],
+    usageMetadata: {promptTokenCount, candidatesTokenCount, totalTokenCount: promptTokenCount + candidatesTokenCount},
+    modelVersion: 'local-stand-in',
+  };
+}
+
+export function installGeminiStandIn(): () => void {
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = async (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    if (url.hostname !== GEMINI_API_HOST) {
+      return realFetch(input, init);
+    }
+    const match = /\/models\/([^/:]+):(generateContent|streamGenerateContent)$/.exec(url.pathname);
+    if (!match || typeof init?.body !== 'string') {
+      return new Response(JSON.stringify({error: {code: 404, message: 'Not supported by the stand-in.'}}), {status: 404});
+    }
+    const request = JSON.parse(init.body) as GeminiRequest;
+    const body = JSON.stringify(toResponse(await answer(match[1], request), request));
+    if (match[2] === 'streamGenerateContent') {
+      return new Response(`data: ${body}\r\n\r\n`, {headers: {'Content-Type': 'text/event-stream'}});
+    }
+    return new Response(body, {headers: {'Content-Type': 'application/json'}});
+  };
+  return () => {
+    globalThis.fetch = realFetch;
+  };
+}
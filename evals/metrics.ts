@@ -0,0 +1,89 @@
+/**
+ * @fileOverview Per-candidate quality metrics computed by the eval harness.
+ *
+ * Each metric scores one generated candidate; a metric that cannot be measured
+ * for a candidate returns `undefined` and is left out of that case's means.
+ * New metrics are added to `EVAL_METRICS`.
+ *
+ * - EVAL_METRICS - The metrics every eval run computes, in report order.
+ * - EvalMetric - A named, directional metric over one candidate.
+ * - EvalMetricContext - What a metric gets to look at.
+ */
+
+import {judgeTryOn} from '@/ai/flows/judge-try-on';
+import type {TryOnCandidate} from '@/ai/flows/try-on-flow';
+import type {GoldenCase} from './dataset';
+
+export interface EvalMetricContext {
+  goldenCase: GoldenCase;
+  candidate: TryOnCandidate;
+}
+
+export interface EvalMetric {
+  id: string;
+  label: string;
+  /** Direction of improvement; the comparison report flags moves the other way as regressions. */
+  higherIsBetter: boolean;
+  measure(context: EvalMetricContext): Promise<number | undefined>;
+}
+
+export const EVAL_METRICS: EvalMetric[] = [
+  {
+    id: 'canvas_integrity',
+    label: 'Canvas integrity',
+    higherIsBetter: true,
+    measure: async ({candidate}) => candidate.canvasIntegrity?.score,
+  },
+  {
+    id: 'colour_fidelity',
+    label: 'Garment colour fidelity',
+    higherIsBetter: true,
+    measure: async ({candidate}) => candidate.colourFidelity?.score,
+  },
+  {
+    id: 'colour_delta_e',
+    label: 'Garment colour ΔE',
+    higherIsBetter: false,
+    measure: async ({candidate}) => candidate.colourFidelity?.deltaE,
+  },
+  {
+    id: 'identity_similarity',
+    label: 'Face identity similarity',
+    higherIsBetter: true,
+    measure: async ({candidate}) => candidate.identity.similarity,
+  },
+  {
+    id: 'judge_overall',
+    label: 'Judge score',
+    higherIsBetter: true,
+    measure: async ({goldenCase, candidate}) => {
+      const result = await judgeTryOn({
+        userImage: goldenCase.userImage,
+        itemImage: goldenCase.itemImage,
+        generatedImage: candidate.generatedImage,
+        garmentRegion: goldenCase.garmentRegion,
+        model: candidate.model,
+      });
+      // Offline judgements are placeholders and would only flatten the comparison.
+      return result.ok && result.data.judged ? result.data.overall : undefined;
+    },
+  },
+  {
+    id: 'rank_score',
+    label: 'Ranking score',
+    higherIsBetter: true,
+    measure: async ({candidate}) => candidate.score,
+  },
+  {
+    id: 'attempts',
+    label: 'Provider attempts',
+    higherIsBetter: false,
+    measure: async ({candidate}) => candidate.attempts,
+  },
+  {
+    id: 'latency_ms',
+    label: 'Latency (ms)',
+    higherIsBetter: false,
+    measure: async ({candidate}) => candidate.latencyMs,
+  },
+];
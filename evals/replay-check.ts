@@ -0,0 +1,127 @@
+/**
+ * @fileOverview Replays the recorded model-call fixtures through the validation and try-on flows, offline.
+ *
+ * Usage: `npm run test:replay -- [--record [--stand-in]] [--cases <id,id>]`
+ *
+ * For every golden case it validates the user photo, then generates a try-on
+ * with the same input as `npm run eval` and judges each candidate as the eval
+ * does, so the committed fixtures cover both this check and
+ * `npm run eval -- --replay`. By default every model call is answered from
+ * `fixtures/model-calls/` and any other network request fails the check; the
+ * run fails if a flow errors, a call was never recorded, or a result is
+ * missing what the model should have supplied.
+ *
+ * `--record` makes the same calls against the Gemini API and rewrites the
+ * fixtures. With `--stand-in` the calls go to the deterministic local stand-in
+ * in `gemini-stand-in.ts` instead, which needs no API key.
+ */
+
+import {config} from 'dotenv';
+import {mkdtemp, rm} from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {parseArgs} from 'node:util';
+import {loadGoldenDataset} from './dataset';
+
+/** The call sites the check drives; `--record` replaces their fixtures. */
+const CALL_SITES = ['validate-image', 'try-on', 'garment-cutout', 'judge-try-on'];
+
+function blockNetwork(): void {
+  globalThis.fetch = async input => {
+    throw new Error(`Network access during a replay check: ${input instanceof Request ? input.url : input.toString()}`);
+  };
+}
+
+async function main() {
+  config();
+  const {values} = parseArgs({
+    options: {
+      record: {type: 'boolean', default: false},
+      'stand-in': {type: 'boolean', default: false},
+      cases: {type: 'string'},
+    },
+  });
+  if (values['stand-in'] && !values.record) {
+    throw new Error('--stand-in only applies to --record.');
+  }
+
+  // Must be set before anything imports the Genkit instance, which picks its plugins at import time.
+  process.env.AI_RECORD_MODE = values.record ? 'record' : 'replay';
+  delete process.env.AI_PROVIDER_MODE;
+  if (!values.record) {
+    delete process.env.GEMINI_API_KEY;
+    delete process.env.GOOGLE_API_KEY;
+    blockNetwork();
+  } else if (values['stand-in']) {
+    process.env.GEMINI_API_KEY = 'stand-in';
+    const {installGeminiStandIn} = await import('./gemini-stand-in');
+    installGeminiStandIn();
+  }
+  // A private cache, so cached cutouts or results never hide a missing fixture.
+  const cacheDir = await mkdtemp(path.join(os.tmpdir(), 'replay-check-'));
+  process.env.AI_CACHE_DIR = cacheDir;
+
+  const {validateImage} = await import('@/ai/flows/validate-image');
+  const {generateAiTryOn} = await import('@/ai/flows/generate-ai-try-on');
+  const {getFixturesRoot} = await import('@/ai/record-replay');
+  const {EVAL_METRICS} = await import('./metrics');
+
+  const goldenCases = await loadGoldenDataset(values.cases?.split(','));
+  if (values.record && !values.cases) {
+    // Fixtures nothing replays any more would only go stale.
+    await Promise.all(CALL_SITES.map(site => rm(path.join(getFixturesRoot(), site), {recursive: true, force: true})));
+  }
+  console.log(`${values.record ? 'Recording' : 'Replaying'} ${goldenCases.length} cases (${path.relative(process.cwd(), getFixturesRoot())}).`);
+
+  const failures: string[] = [];
+  try {
+    for (const goldenCase of goldenCases) {
+      const fail = (message: string) => failures.push(`${goldenCase.id}: ${message}`);
+
+      const validation = await validateImage({photoDataUri: goldenCase.userImage, garmentRegion: goldenCase.garmentRegion});
+      if (!validation.ok) {
+        fail(`validation ${validation.error.kind} - ${validation.error.message}`);
+      } else if (!validation.data.checks.some(check => check.id === 'pose')) {
+        fail('validation returned no model checks.');
+      }
+
+      const result = await generateAiTryOn({
+        userImage: goldenCase.userImage,
+        itemImage: goldenCase.itemImage,
+        garmentRegion: goldenCase.garmentRegion,
+        bypassCache: true,
+        model: 'googleai/gemini-2.0-flash',
+      });
+      if (!result.ok) {
+        fail(`try-on ${result.error.kind} - ${result.error.message}`);
+        continue;
+      }
+      if (!result.data.judgement?.judged) {
+        fail('the try-on flow did not judge its best candidate.');
+      }
+      for (const candidate of result.data.candidates) {
+        for (const metric of EVAL_METRICS) {
+          const value = await metric.measure({goldenCase, candidate});
+          if (metric.id === 'judge_overall' && value === undefined) {
+            fail(`candidate ${candidate.rank} was not judged.`);
+          }
+        }
+      }
+      console.log(`  ${goldenCase.id}: ${result.data.candidates.length} candidates, judged ${result.data.judgement?.overall.toFixed(3)}`);
+    }
+  } finally {
+    await rm(cacheDir, {recursive: true, force: true});
+  }
+
+  if (failures.length > 0) {
+    console.log(`${failures.length} failures:\n${failures.map(failure => `  ${failure}`).join('\n')}`);
+    process.exitCode = 1;
+    return;
+  }
+  console.log(values.record ? 'Recorded.' : 'All cases replayed.');
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,94 @@
+/**
+ * @fileOverview The on-disk format of an eval run and helpers to build and read it.
+ *
+ * - RUNS_DIR - Where eval runs are written, one directory per run label.
+ * - summariseRun - Aggregates per-candidate metrics into a run summary.
+ * - readEvalRun - Loads a run's `results.json` by label or path.
+ * - EvalRun - A complete eval run: settings, per-case results and summary.
+ * - EvalCaseResult - One golden case's outcome.
+ * - EvalCandidateResult - Metrics for one generated candidate.
+ */
+
+import {readFile} from 'node:fs/promises';
+import {existsSync} from 'node:fs';
+import path from 'node:path';
+import type {AiError} from '@/ai/errors';
+import type {TryOnModelId} from '@/ai/models';
+import type {EvalMetric} from './metrics';
+
+export const RUNS_DIR = path.join(__dirname, 'runs');
+
+export interface EvalCandidateResult {
+  rank: number;
+  model: string;
+  attempts: number;
+  /** Keyed by `EvalMetric.id`; undefined where the metric could not be measured. */
+  metrics: Record<string, number | undefined>;
+}
+
+export interface EvalCaseResult {
+  id: string;
+  garmentRegion: string;
+  promptVersion?: string;
+  error?: AiError;
+  /** Best-first, as ranked by the flow; empty when the case failed. */
+  candidates: EvalCandidateResult[];
+}
+
+export interface EvalMetricSummary {
+  label: string;
+  higherIsBetter: boolean;
+  /** Mean over every candidate the metric could be measured for; undefined when there were none. */
+  mean?: number;
+  count: number;
+}
+
+export interface EvalRun {
+  label: string;
+  startedAt: string;
+  /** `replay` answers model calls from recorded fixtures; `mock` uses the mock provider. */
+  mode: 'mock' | 'live' | 'replay';
+  model: TryOnModelId;
+  promptVersion?: string;
+  /** Whether the colour-correction pass was on, which moves the colour metrics. */
+  correctColour?: boolean;
+  cases: EvalCaseResult[];
+  summary: {
+    caseCount: number;
+    /** Share of cases where the flow returned an error. */
+    errorRate: number;
+    metrics: Record<string, EvalMetricSummary>;
+  };
+}
+
+export function summariseRun(cases: EvalCaseResult[], metricList: EvalMetric[]): EvalRun['summary'] {
+  const candidates = cases.flatMap(result => result.candidates);
+  const metrics = Object.fromEntries(
+    metricList.map(metric => {
+      const values = candidates.flatMap(candidate => {
+        const value = candidate.metrics[metric.id];
+        return value === undefined ? [] : [value];
+      });
+      const mean = values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+      return [metric.id, {label: metric.label, higherIsBetter: metric.higherIsBetter, mean, count: values.length}];
+    })
+  );
+  return {
+    caseCount: cases.length,
+    errorRate: cases.length ? cases.filter(result => result.error).length / cases.length : 0,
+    metrics,
+  };
+}
+
+export async function readEvalRun(labelOrPath: string): Promise<EvalRun> {
+  const candidates = [
+    labelOrPath,
+    path.join(labelOrPath, 'results.json'),
+    path.join(RUNS_DIR, labelOrPath, 'results.json'),
+  ];
+  const file = candidates.find(candidate => candidate.endsWith('.json') && existsSync(candidate));
+  if (!file) {
+    throw new Error(`No eval run found for "${labelOrPath}". Pass a run label from ${RUNS_DIR} or a results.json path.`);
+  }
+  return JSON.parse(await readFile(file, 'utf8')) as EvalRun;
+}
@@ -0,0 +1,124 @@
+/**
+ * @fileOverview Runs the try-on flow over the golden dataset and records quality metrics.
+ *
+ * Usage: `npm run eval -- [--label <name>] [--model <id>] [--mock | --replay] [--cases <id,id>] [--candidates <n>] [--prompt-version <version>] [--correct-colour]`
+ *
+ * With `--replay` (or AI_RECORD_MODE=replay) model calls are answered from
+ * recorded fixtures, see `src/ai/record-replay.ts`. Otherwise, without a
+ * Gemini API key or with `--mock`, the run is offline: every call goes
+ * through the mock provider. Results land in `evals/runs/<label>/`:
+ * `results.json` with per-candidate metrics and a summary, plus the best
+ * candidate image of each case. Compare two runs with `npm run eval:compare`.
+ */
+
+import {config} from 'dotenv';
+import {mkdir, writeFile} from 'node:fs/promises';
+import path from 'node:path';
+import {parseArgs} from 'node:util';
+import {decodeImageDataUri, parseImageDataUri} from '@/ai/images/data-uri';
+import type {TryOnModelId} from '@/ai/models';
+import {loadGoldenDataset} from './dataset';
+import type {EvalCandidateResult, EvalCaseResult, EvalRun} from './results';
+
+const EXTENSIONS: Record<string, string> = {'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp'};
+
+async function main() {
+  config();
+  const {values} = parseArgs({
+    options: {
+      label: {type: 'string'},
+      model: {type: 'string'},
+      mock: {type: 'boolean', default: false},
+      replay: {type: 'boolean', default: false},
+      cases: {type: 'string'},
+      candidates: {type: 'string'},
+      'prompt-version': {type: 'string'},
+      'correct-colour': {type: 'boolean', default: false},
+    },
+  });
+
+  if (values.replay) {
+    process.env.AI_RECORD_MODE = 'replay';
+  }
+  const hasApiKey = Boolean(process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY);
+  const mode: EvalRun['mode'] =
+    process.env.AI_RECORD_MODE === 'replay' ? 'replay' : values.mock || !hasApiKey ? 'mock' : 'live';
+  if (mode === 'mock') {
+    // Must be set before anything imports the Genkit instance, which picks its plugins at import time.
+    process.env.AI_PROVIDER_MODE = 'mock';
+  }
+  const {generateAiTryOn} = await import('@/ai/flows/generate-ai-try-on');
+  const {TRY_ON_MODEL_IDS} = await import('@/ai/models');
+  const {EVAL_METRICS} = await import('./metrics');
+  const {RUNS_DIR, summariseRun} = await import('./results');
+
+  const model = (values.model ?? (mode === 'mock' ? 'mock' : 'googleai/gemini-2.0-flash')) as TryOnModelId;
+  if (!TRY_ON_MODEL_IDS.includes(model)) {
+    throw new Error(`Unknown model "${model}". Expected one of: ${TRY_ON_MODEL_IDS.join(', ')}.`);
+  }
+  const label = values.label ?? `${new Date().toISOString().replace(/[:.]/g, '-')}-${mode}`;
+  const runDir = path.join(RUNS_DIR, label);
+  await mkdir(runDir, {recursive: true});
+
+  const goldenCases = await loadGoldenDataset(values.cases?.split(','));
+  const startedAt = new Date().toISOString();
+  console.log(`Eval run "${label}": ${goldenCases.length} cases, model ${model} (${mode}).`);
+
+  const cases: EvalCaseResult[] = [];
+  for (const goldenCase of goldenCases) {
+    const result = await generateAiTryOn({
+      userImage: goldenCase.userImage,
+      itemImage: goldenCase.itemImage,
+      garmentRegion: goldenCase.garmentRegion,
+      promptVersion: values['prompt-version'],
+      candidateCount: values.candidates ? Number(values.candidates) : undefined,
+      correctColour: values['correct-colour'],
+      bypassCache: true,
+      model,
+    });
+    if (!result.ok) {
+      console.log(`  ${goldenCase.id}: ${result.error.kind} - ${result.error.message}`);
+      cases.push({id: goldenCase.id, garmentRegion: goldenCase.garmentRegion, error: result.error, candidates: []});
+      continue;
+    }
+
+    const candidates: EvalCandidateResult[] = [];
+    for (const candidate of result.data.candidates) {
+      const metrics: Record<string, number | undefined> = {};
+      for (const metric of EVAL_METRICS) {
+        metrics[metric.id] = await metric.measure({goldenCase, candidate});
+      }
+      candidates.push({rank: candidate.rank, model: candidate.model, attempts: candidate.attempts, metrics});
+    }
+    const best = result.data.candidates[0];
+    const {mimeType} = parseImageDataUri(best.generatedImage);
+    await writeFile(path.join(runDir, `${goldenCase.id}.${EXTENSIONS[mimeType] ?? 'img'}`), decodeImageDataUri(best.generatedImage));
+
+    cases.push({
+      id: goldenCase.id,
+      garmentRegion: goldenCase.garmentRegion,
+      promptVersion: result.data.promptVersion,
+      candidates,
+    });
+    const headline = EVAL_METRICS.map(metric => `${metric.id}=${candidates[0].metrics[metric.id]?.toFixed(3) ?? 'n/a'}`);
+    console.log(`  ${goldenCase.id}: ${headline.join(' ')}`);
+  }
+
+  const run: EvalRun = {
+    label,
+    startedAt,
+    mode,
+    model,
+    promptVersion: values['prompt-version'],
+    correctColour: values['correct-colour'],
+    cases,
+    summary: summariseRun(cases, EVAL_METRICS),
+  };
+  await writeFile(path.join(runDir, 'results.json'), JSON.stringify(run, null, 2));
+  console.log(`Wrote ${path.relative(process.cwd(), path.join(runDir, 'results.json'))}.`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
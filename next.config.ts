@@ -1,4 +1,5 @@
 import type {NextConfig} from 'next';
+import {CATALOGUE_IMAGE_PATTERNS} from './src/lib/image-hosts';
 
 const nextConfig: NextConfig = {
   /* config options here */
@@ -9,27 +10,10 @@ const nextConfig: NextConfig = {
     ignoreDuringBuilds: true,
   },
   images: {
-    remotePatterns: [
-      {
-        protocol: 'https',
-        hostname: 'placehold.co',
-        port: '',
-        pathname: '/**',
-      },
-      {
-        protocol: 'https',
-        hostname: 'images.unsplash.com',
-        port: '',
-        pathname: '/**',
-      },
-      {
-        protocol: 'https',
-        hostname: 'via.placeholder.com',
-        port: '',
-        pathname: '/**',
-      }
-    ],
+    remotePatterns: CATALOGUE_IMAGE_PATTERNS,
   },
+  // The face model loads its weights and WASM binaries from node_modules at runtime.
+  serverExternalPackages: ['@vladmandic/face-api', '@tensorflow/tfjs', '@tensorflow/tfjs-backend-wasm'],
 };
 
 export default nextConfig;
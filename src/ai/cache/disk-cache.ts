@@ -0,0 +1,109 @@
+/**
+ * @fileOverview Minimal content store on the local filesystem.
+ *
+ * Entries live under `<AI_CACHE_DIR>/<namespace>/<key>`; AI_CACHE_DIR defaults
+ * to `.cache/ai` in the project root. Keys must be filesystem-safe (hex
+ * digests in practice). Read and write failures are logged and treated as a
+ * cache miss, so a read-only or full disk never breaks a request.
+ *
+ * A namespace can optionally expire entries after a TTL (measured from when
+ * they were written) and cap its total size, evicting the least recently
+ * used entries first.
+ *
+ * - createDiskCache - Returns a get/set store for one namespace.
+ * - hashKey - Builds a hex cache key from any number of string parts.
+ */
+
+import {createHash} from 'crypto';
+import {promises as fs} from 'fs';
+import path from 'path';
+import {logger} from '@/ai/observability/logger';
+
+export interface DiskCache {
+  get(key: string): Promise<Buffer | undefined>;
+  set(key: string, value: Buffer): Promise<void>;
+}
+
+export interface DiskCacheOptions {
+  /** Entries older than this are treated as missing and deleted. */
+  ttlMs?: number;
+  /** When the namespace grows past this many bytes, least recently used entries are evicted. */
+  maxBytes?: number;
+}
+
+export function getCacheRoot(): string {
+  return path.resolve(process.env.AI_CACHE_DIR ?? path.join(process.cwd(), '.cache', 'ai'));
+}
+
+export function hashKey(...parts: string[]): string {
+  const hash = createHash('sha256');
+  for (const part of parts) {
+    hash.update(part).update('\0');
+  }
+  return hash.digest('hex');
+}
+
+async function evictToSize(directory: string, maxBytes: number): Promise<void> {
+  const names = await fs.readdir(directory);
+  const entries = await Promise.all(
+    names
+      .filter(name => !name.endsWith('.tmp'))
+      .map(async name => {
+        const stat = await fs.stat(path.join(directory, name));
+        return {name, size: stat.size, usedAt: stat.atimeMs};
+      })
+  );
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  entries.sort((a, b) => a.usedAt - b.usedAt);
+  for (const entry of entries) {
+    if (total <= maxBytes) break;
+    await fs.rm(path.join(directory, entry.name), {force: true});
+    total -= entry.size;
+  }
+}
+
+export function createDiskCache(namespace: string, options: DiskCacheOptions = {}): DiskCache {
+  const directory = path.join(getCacheRoot(), namespace);
+
+  return {
+    async get(key) {
+      const file = path.join(directory, key);
+      try {
+        if (options.ttlMs !== undefined) {
+          const {mtimeMs} = await fs.stat(file);
+          if (Date.now() - mtimeMs > options.ttlMs) {
+            await fs.rm(file, {force: true});
+            return undefined;
+          }
+        }
+        const value = await fs.readFile(file);
+        if (options.maxBytes !== undefined) {
+          // Record the read for LRU eviction; atime updates are unreliable on many mounts.
+          const now = new Date();
+          const {mtime} = await fs.stat(file);
+          await fs.utimes(file, now, mtime);
+        }
+        return value;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          logger.warn('Disk cache read failed.', {namespace, key, error});
+        }
+        return undefined;
+      }
+    },
+    async set(key, value) {
+      try {
+        await fs.mkdir(directory, {recursive: true});
+        const target = path.join(directory, key);
+        const temp = `${target}.${process.pid}.tmp`;
+        await fs.writeFile(temp, value);
+        await fs.rename(temp, target);
+        if (options.maxBytes !== undefined) {
+          await evictToSize(directory, options.maxBytes);
+        }
+      } catch (error) {
+        logger.warn('Disk cache write failed.', {namespace, key, error});
+      }
+    },
+  };
+}
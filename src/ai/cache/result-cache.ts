@@ -0,0 +1,65 @@
+/**
+ * @fileOverview Content-addressed cache of try-on results.
+ *
+ * A result is keyed by everything that determines it: the content hashes of
+ * the normalised user photo and of the loaded item image, the model, the prompt version and the
+ * generation config. Identical requests are served from disk instead of
+ * making another paid model call. Entries expire after TRY_ON_CACHE_TTL_HOURS
+ * (default 168) and the store is capped at TRY_ON_CACHE_MAX_MB (default 500).
+ *
+ * - getTryOnCacheKey - Derives the cache key for a try-on request.
+ * - readCachedTryOn - Returns a cached result, if any.
+ * - writeCachedTryOn - Stores a result.
+ */
+
+import {logger} from '@/ai/observability/logger';
+import {createDiskCache, hashKey} from './disk-cache';
+
+/** Bump when the stored result shape changes, to invalidate old entries. */
+const RESULT_CACHE_VERSION = 'try-on-result-v4';
+
+const resultCache = createDiskCache('try-on-results', {
+  ttlMs: Number(process.env.TRY_ON_CACHE_TTL_HOURS ?? 168) * 60 * 60 * 1000,
+  maxBytes: Number(process.env.TRY_ON_CACHE_MAX_MB ?? 500) * 1024 * 1024,
+});
+
+export interface TryOnCacheKeyParts {
+  userImageHash: string;
+  /** The hash of the item image bytes, so a product image replaced behind the same URL is not served stale. */
+  itemImageHash: string;
+  model: string;
+  promptVersion: string;
+  config: Record<string, string | number | boolean>;
+}
+
+export function getTryOnCacheKey(parts: TryOnCacheKeyParts): string {
+  const config = Object.keys(parts.config)
+    .sort()
+    .map(name => `${name}=${parts.config[name]}`)
+    .join('&');
+  return hashKey(
+    RESULT_CACHE_VERSION,
+    parts.userImageHash,
+    parts.itemImageHash,
+    parts.model,
+    parts.promptVersion,
+    config
+  );
+}
+
+export async function readCachedTryOn<T>(key: string): Promise<T | undefined> {
+  const bytes = await resultCache.get(key);
+  if (!bytes) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(bytes.toString('utf8')) as T;
+  } catch (error) {
+    logger.warn('Ignoring unreadable cached try-on result.', {key, error});
+    return undefined;
+  }
+}
+
+export async function writeCachedTryOn<T>(key: string, result: T): Promise<void> {
+  await resultCache.set(key, Buffer.from(JSON.stringify(result), 'utf8'));
+}
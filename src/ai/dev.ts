@@ -2,4 +2,6 @@ import { config } from 'dotenv';
 config();
 
 import '@/ai/flows/validate-image.ts';
-import '@/ai/flows/generate-ai-try-on.ts';
\ No newline at end of file
+import '@/ai/flows/fix-image.ts';
+import '@/ai/flows/try-on-flow.ts';
+import '@/ai/flows/judge-try-on.ts';
\ No newline at end of file
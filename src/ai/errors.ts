@@ -0,0 +1,115 @@
+/**
+ * @fileOverview Typed error taxonomy for the AI flows.
+ *
+ * Server actions cannot throw rich errors to the client (Next.js strips the
+ * message in production), so flows throw `AiFlowError` internally and the
+ * exported actions return an `AiResult` whose error side is a plain,
+ * serialisable `AiError`. This module has no server-only imports, so client
+ * components can use it to pick a recovery action.
+ *
+ * - AiError - Discriminated union of every failure the flows can report.
+ * - AiFlowError - Error class carrying an `AiError`, thrown inside flows.
+ * - AiResult - Return type of the AI server actions.
+ * - QuotaBudget - The per-visitor budget a `quota_exceeded` error ran out of.
+ * - toAiError - Classifies an unknown thrown value into an `AiError`.
+ * - getRecoveryAction - The action the studio should offer for an error.
+ */
+
+export type QuotaBudget = 'validation' | 'fixing' | 'generation' | 'judging';
+
+export type AiError =
+  | {kind: 'safety_blocked'; message: string}
+  | {kind: 'no_image_returned'; message: string}
+  | {kind: 'rate_limited'; message: string; retryAfterMs?: number}
+  | {kind: 'quota_exceeded'; message: string; budget: QuotaBudget; retryAfterMs: number}
+  | {kind: 'budget_exceeded'; message: string; retryAfterMs: number}
+  | {kind: 'invalid_input'; message: string; field?: string}
+  | {kind: 'unsupported_model'; message: string; model: string}
+  | {kind: 'upstream_timeout'; message: string}
+  | {kind: 'integrity_check_failed'; message: string; score: number}
+  | {kind: 'unknown'; message: string};
+
+export type AiErrorKind = AiError['kind'];
+
+export type AiResult<T> = {ok: true; data: T} | {ok: false; error: AiError};
+
+export type RecoveryAction = 'retry' | 'switch_model' | 'reupload' | 'wait';
+
+export class AiFlowError extends Error {
+  readonly detail: AiError;
+
+  constructor(detail: AiError, options?: {cause?: unknown}) {
+    super(detail.message);
+    this.name = 'AiFlowError';
+    this.detail = detail;
+    if (options?.cause !== undefined) {
+      (this as {cause?: unknown}).cause = options.cause;
+    }
+  }
+}
+
+const RETRY_AFTER_PATTERN = /retry(?:Delay| after)?["':\s]*(\d+(?:\.\d+)?)s/i;
+
+function getStatus(error: unknown): string | number | undefined {
+  if (error && typeof error === 'object' && 'status' in error) {
+    const status = (error as {status: unknown}).status;
+    if (typeof status === 'string' || typeof status === 'number') {
+      return status;
+    }
+  }
+  return undefined;
+}
+
+function isBlockedResponse(error: unknown): boolean {
+  if (error && typeof error === 'object') {
+    if ((error as {name?: string}).name === 'GenerationBlockedError') {
+      return true;
+    }
+    const detail = (error as {detail?: {response?: {finishReason?: string}}}).detail;
+    return detail?.response?.finishReason === 'blocked';
+  }
+  return false;
+}
+
+export function toAiError(error: unknown): AiError {
+  if (error instanceof AiFlowError) {
+    return error.detail;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  const status = getStatus(error);
+
+  if (isBlockedResponse(error) || /\bSAFETY\b|blocked due to|prohibited content/i.test(message)) {
+    return {kind: 'safety_blocked', message: 'The request was blocked by the model safety filters.'};
+  }
+  if (status === 429 || status === 'RESOURCE_EXHAUSTED' || /quota|rate limit|too many requests/i.test(message)) {
+    const retryAfter = message.match(RETRY_AFTER_PATTERN);
+    return {
+      kind: 'rate_limited',
+      message: 'The AI service is busy or the usage quota was reached.',
+      ...(retryAfter ? {retryAfterMs: Math.ceil(parseFloat(retryAfter[1]) * 1000)} : {}),
+    };
+  }
+  if (status === 504 || status === 'DEADLINE_EXCEEDED' || /timed? ?out|deadline/i.test(message)) {
+    return {kind: 'upstream_timeout', message: 'The AI service took too long to respond.'};
+  }
+  if (status === 400 || status === 'INVALID_ARGUMENT' || /invalid .*data uri|invalid image/i.test(message)) {
+    return {kind: 'invalid_input', message};
+  }
+  return {kind: 'unknown', message};
+}
+
+export function getRecoveryAction(error: AiError): RecoveryAction {
+  switch (error.kind) {
+    case 'unsupported_model':
+    case 'no_image_returned':
+      return 'switch_model';
+    case 'invalid_input':
+    case 'safety_blocked':
+      return 'reupload';
+    case 'quota_exceeded':
+    case 'budget_exceeded':
+      return 'wait';
+    default:
+      return 'retry';
+  }
+}
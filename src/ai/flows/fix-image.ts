@@ -0,0 +1,72 @@
+'use server';
+
+/**
+ * @fileOverview Applies the automatic fixes suggested by image validation to a user photo.
+ *
+ * Fixes run on the upload at full size with its EXIF orientation applied.
+ * Crop boxes from `validateImage` are relative to the normalised photo, which
+ * has the same orientation and aspect ratio, so they line up. The fixed photo
+ * is returned for the studio to revalidate and use for the try-on. Fixes are
+ * CPU-heavy, so each visitor has a `fixing` rate limit.
+ *
+ * - fixImage - A function that applies fix actions to a photo, returning a typed error on failure.
+ * - FixImageInput - The input type for the fixImage function.
+ * - FixImageOutput - The return type for the fixImage function.
+ * - PhotoFixAction - One automatic fix, as returned by validateImage.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {toAiError, type AiResult} from '@/ai/errors';
+import {enforceRateLimit} from '@/ai/rate-limit/limiter';
+import {traceAiAction} from '@/ai/observability/tracing';
+import sharp from 'sharp';
+import {decodeImageDataUri, toImageDataUri} from '@/ai/images/data-uri';
+import {loadImage} from '@/ai/images/load-image';
+import {applyPhotoFixes, PHOTO_FIX_TYPES, PhotoFixActionSchema} from '@/ai/images/photo-fixes';
+
+export type {PhotoFixAction} from '@/ai/images/photo-fixes';
+
+const FixImageInputSchema = z.object({
+  photoDataUri: z
+    .string()
+    .describe(
+      "A photo of a person, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
+    ),
+  fixes: z
+    .array(PhotoFixActionSchema)
+    .min(1)
+    .max(PHOTO_FIX_TYPES.length)
+    .describe('The fixes to apply, as returned by validateImage; at most one of each type is applied.'),
+});
+export type FixImageInput = z.infer<typeof FixImageInputSchema>;
+
+const FixImageOutputSchema = z.object({
+  photoDataUri: z.string().describe('The fixed photo as a JPEG data URI.'),
+  applied: z.array(PhotoFixActionSchema).describe('The fixes that were applied, in the order they ran, without repeated types.'),
+});
+export type FixImageOutput = z.infer<typeof FixImageOutputSchema>;
+
+export async function fixImage(input: FixImageInput): Promise<AiResult<FixImageOutput>> {
+  return traceAiAction('fix-image', {'tryon.fix_count': input.fixes.length}, async () => {
+    try {
+      await enforceRateLimit('fixing');
+      return {ok: true, data: await fixImageFlow(input)};
+    } catch (error) {
+      return {ok: false, error: toAiError(error)};
+    }
+  });
+}
+
+const fixImageFlow = ai.defineFlow(
+  {
+    name: 'fixImageFlow',
+    inputSchema: FixImageInputSchema,
+    outputSchema: FixImageOutputSchema,
+  },
+  async input => {
+    const {dataUri} = await loadImage(input.photoDataUri, {field: 'photoDataUri'});
+    const oriented = await sharp(decodeImageDataUri(dataUri)).rotate().png({compressionLevel: 1}).toBuffer();
+    return applyPhotoFixes(toImageDataUri('image/png', oriented), input.fixes);
+  }
+);
@@ -0,0 +1,185 @@
+/**
+ * @fileOverview Genkit flow that scores a generated try-on against the photos it was made from.
+ *
+ * A multimodal model sees the user photo, the product image and the generated
+ * image, and scores four criteria from 0 to 1 with a one-sentence explanation
+ * each: garment fidelity (colour, pattern, logos, shape), identity
+ * preservation, realism and freedom from artifacts. The overall score is a
+ * weighted mean computed here, and passes at `TRY_ON_JUDGE_MIN_SCORE` (default
+ * 0.6) or above. Every judgement is logged as a single JSON line for
+ * analytics.
+ *
+ * Server actions may only export async functions, so the flow lives here:
+ * the try-on flow judges its best candidate with it on the server, and
+ * `judge-try-on.ts` wraps it as a rate-limited server action for other
+ * callers such as the eval harness.
+ *
+ * In offline mock mode there is no model to ask, so the judgement comes back
+ * with `judged: false` and placeholder scores.
+ *
+ * - judgeTryOnFlowDefinition - The judge flow; throws `AiFlowError` on failure.
+ * - TryOnJudgementSchema - Zod schema of the structured assessment.
+ * - JudgeTryOnInput - The input type for the judge flow.
+ * - TryOnJudgement - The structured assessment.
+ * - JudgeCriterionId - The id of one judged criterion.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {isMockMode} from '@/ai/providers';
+import {recordReplay} from '@/ai/record-replay';
+import {meterModelUsage} from '@/ai/usage/metering';
+import {AiFlowError} from '@/ai/errors';
+import {loadImage} from '@/ai/images/load-image';
+import {getRegionPromptSpec} from '@/ai/prompts/regions';
+import {TRY_ON_MODEL_IDS} from '@/ai/models';
+import {GARMENT_REGIONS} from '@/lib/products';
+import {logger} from '@/ai/observability/logger';
+
+const JUDGE_CRITERIA = ['garment_fidelity', 'identity_preservation', 'realism', 'artifacts'] as const;
+
+export type JudgeCriterionId = (typeof JUDGE_CRITERIA)[number];
+
+/** How much each criterion counts towards the overall score; sums to 1. */
+const CRITERION_WEIGHTS: Record<JudgeCriterionId, number> = {
+  garment_fidelity: 0.35,
+  identity_preservation: 0.3,
+  realism: 0.2,
+  artifacts: 0.15,
+};
+
+const JUDGE_MODEL = 'googleai/gemini-2.0-flash';
+const JUDGE_MIN_SCORE = Number(process.env.TRY_ON_JUDGE_MIN_SCORE ?? 0.6);
+
+const JudgeTryOnInputSchema = z.object({
+  userImage: z.string().describe('The user photo the try-on was generated from, as a data URI.'),
+  itemImage: z.string().describe('The product image, as a data URI or an HTTP/S URL.'),
+  generatedImage: z.string().describe('The generated try-on image to judge, as a data URI.'),
+  garmentRegion: z.enum(GARMENT_REGIONS).describe('The body region the item is worn on.'),
+  model: z.enum(TRY_ON_MODEL_IDS).optional().describe('The model that generated the image; logged with the judgement.'),
+  promptVersion: z.string().optional().describe('The prompt version that generated the image; logged with the judgement.'),
+});
+export type JudgeTryOnInput = z.infer<typeof JudgeTryOnInputSchema>;
+
+const JudgeCriterionSchema = z.object({
+  id: z.enum(JUDGE_CRITERIA),
+  score: z.number().describe('How well the image meets this criterion, in [0, 1].'),
+  explanation: z.string().describe('Why the image got this score, in one sentence.'),
+});
+
+export const TryOnJudgementSchema = z.object({
+  overall: z.number().describe('Weighted mean of the criterion scores, in [0, 1].'),
+  passed: z.boolean().describe('Whether `overall` reaches `threshold`.'),
+  threshold: z.number().describe('The minimum overall score configured on the server.'),
+  judged: z.boolean().describe('False in offline mode, where no model judged the image and the scores are placeholders.'),
+  criteria: z.array(JudgeCriterionSchema).describe('Per-criterion scores, in a fixed order.'),
+  summary: z.string().describe('One-sentence verdict on the image as a whole.'),
+});
+export type TryOnJudgement = z.infer<typeof TryOnJudgementSchema>;
+
+const CriterionAssessmentSchema = z.object({
+  score: z.number().describe('0 = fails completely, 1 = perfect.'),
+  explanation: z.string().describe('One short sentence on what you see.'),
+});
+
+const ModelJudgementSchema = z.object({
+  garment_fidelity: CriterionAssessmentSchema,
+  identity_preservation: CriterionAssessmentSchema,
+  realism: CriterionAssessmentSchema,
+  artifacts: CriterionAssessmentSchema,
+  summary: z.string().describe('One sentence verdict on the try-on as a whole.'),
+});
+
+const prompt = ai.definePrompt({
+  name: 'judgeTryOnPrompt',
+  model: JUDGE_MODEL,
+  use: [recordReplay('judge-try-on', JUDGE_MODEL), meterModelUsage('judge-try-on', JUDGE_MODEL)],
+  input: {
+    schema: z.object({
+      userImage: z.string(),
+      itemImage: z.string(),
+      generatedImage: z.string(),
+      itemShort: z.string(),
+    }),
+  },
+  output: {schema: ModelJudgementSchema},
+  config: {temperature: 0},
+  prompt: `You are a strict quality reviewer for a virtual try-on application. The third image was generated to show the person from the first image wearing the {{itemShort}} from the second image.
+
+  Score the generated image on each criterion from 0 to 1 and explain the score in one sentence:
+  - garment_fidelity: the {{itemShort}} matches the product exactly: colour, pattern, print, logos, texture and shape
+  - identity_preservation: the face, hair, skin tone, body shape, pose and background are the same as in the person's photo
+  - realism: the {{itemShort}} sits naturally on the body, with plausible fit, folds, lighting and shadows
+  - artifacts: free of visual defects such as warped hands or limbs, smudges, seams, duplicated or missing body parts, garbled text (1 = no artifacts)
+
+  Then give a one-sentence overall verdict.
+
+  The person's photo:
+  {{media url=userImage}}
+
+  The product:
+  {{media url=itemImage}}
+
+  The generated try-on:
+  {{media url=generatedImage}}
+`,
+});
+
+function toJudgement(criteria: TryOnJudgement['criteria'], summary: string, judged: boolean): TryOnJudgement {
+  const overall = criteria.reduce((sum, criterion) => sum + criterion.score * CRITERION_WEIGHTS[criterion.id], 0);
+  return {overall, passed: overall >= JUDGE_MIN_SCORE, threshold: JUDGE_MIN_SCORE, judged, criteria, summary};
+}
+
+export const judgeTryOnFlowDefinition = ai.defineFlow(
+  {
+    name: 'judgeTryOnFlow',
+    inputSchema: JudgeTryOnInputSchema,
+    outputSchema: TryOnJudgementSchema,
+  },
+  async input => {
+    let judgement: TryOnJudgement;
+    if (isMockMode()) {
+      judgement = toJudgement(
+        JUDGE_CRITERIA.map(id => ({id, score: 1, explanation: 'Not judged in offline mode.'})),
+        'Not judged in offline mode.',
+        false
+      );
+    } else {
+      const [userImage, itemImage, generatedImage] = await Promise.all([
+        loadImage(input.userImage, {field: 'userImage'}),
+        loadImage(input.itemImage, {field: 'itemImage'}),
+        loadImage(input.generatedImage, {field: 'generatedImage'}),
+      ]);
+      const {output} = await prompt({
+        userImage: userImage.dataUri,
+        itemImage: itemImage.dataUri,
+        generatedImage: generatedImage.dataUri,
+        itemShort: getRegionPromptSpec(input.garmentRegion).itemShort,
+      });
+      if (!output) {
+        throw new AiFlowError({kind: 'unknown', message: 'The try-on judge did not return a result.'});
+      }
+      judgement = toJudgement(
+        JUDGE_CRITERIA.map(id => ({
+          id,
+          score: Math.min(1, Math.max(0, Number.isFinite(output[id].score) ? output[id].score : 0)),
+          explanation: output[id].explanation,
+        })),
+        output.summary,
+        true
+      );
+    }
+
+    logger.info('Try-on judged', {
+      event: 'try_on_judged',
+      garmentRegion: input.garmentRegion,
+      model: input.model,
+      promptVersion: input.promptVersion,
+      judged: judgement.judged,
+      overall: Number(judgement.overall.toFixed(3)),
+      passed: judgement.passed,
+      scores: Object.fromEntries(judgement.criteria.map(criterion => [criterion.id, Number(criterion.score.toFixed(3))])),
+    });
+    return judgement;
+  }
+);
@@ -0,0 +1,36 @@
+'use server';
+
+/**
+ * @fileOverview Server action that scores a generated try-on against the photos it was made from.
+ *
+ * The flow itself is defined in `judge-flow.ts`. The studio does not call
+ * this action: the try-on flow judges its best candidate on the server and
+ * returns the judgement with the result, so large images never travel back
+ * through a server action. It serves callers that judge images they already
+ * hold, such as the eval harness.
+ *
+ * - judgeTryOn - Scores a generated try-on, returning a typed error on failure or when the visitor's judging budget is spent.
+ * - JudgeTryOnInput - The input type for the judgeTryOn function.
+ * - TryOnJudgement - The structured assessment.
+ * - JudgeCriterionId - The id of one judged criterion.
+ */
+
+import {toAiError, type AiResult} from '@/ai/errors';
+import {enforceRateLimit} from '@/ai/rate-limit/limiter';
+import {assertAiBudgetAvailable} from '@/ai/usage/budget';
+import {traceAiAction} from '@/ai/observability/tracing';
+import {judgeTryOnFlowDefinition, type JudgeTryOnInput, type TryOnJudgement} from './judge-flow';
+
+export type {JudgeCriterionId, JudgeTryOnInput, TryOnJudgement} from './judge-flow';
+
+export async function judgeTryOn(input: JudgeTryOnInput): Promise<AiResult<TryOnJudgement>> {
+  return traceAiAction('judge-try-on', {'tryon.model': input.model ?? '', 'tryon.garment_region': input.garmentRegion}, async () => {
+    try {
+      await enforceRateLimit('judging');
+      await assertAiBudgetAvailable();
+      return {ok: true, data: await judgeTryOnFlowDefinition(input)};
+    } catch (error) {
+      return {ok: false, error: toAiError(error)};
+    }
+  });
+}
@@ -0,0 +1,447 @@
+/**
+ * @fileOverview Genkit flows that generate an AI try-on image of a user wearing a selected item.
+ *
+ * Server actions may only export async functions, so the flow objects live
+ * here: `generate-ai-try-on.ts` wraps the core flow as a server action, and
+ * the `/api/try-on` route serves the streaming flow to the studio.
+ *
+ * The best candidate is judged here, on the server, with the judge flow in
+ * `judge-flow.ts`, and its judgement is returned (and cached) with the
+ * result, so the studio never uploads the generated image back to be scored.
+ *
+ * - generateAiTryOnFlowDefinition - The core flow; throws `AiFlowError` and streams progress events.
+ * - generateAiTryOnStreamingFlow - Streams progress events and resolves to an `AiResult` instead of throwing; rate limited per visitor.
+ * - GenerateAiTryOnInput - The input type for the try-on flows.
+ * - GenerateAiTryOnOutput - The output type of the core flow.
+ * - TryOnCandidate - One ranked candidate image with its metadata.
+ * - TryOnStage - A step of the try-on pipeline reported in progress events.
+ * - TryOnProgressEvent - A streamed stage change or piece of model commentary.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {isMockMode, resolveTryOnProvider} from '@/ai/providers';
+import {TRY_ON_MODEL_IDS} from '@/ai/models';
+import {AiFlowError, toAiError, type AiError, type AiResult} from '@/ai/errors';
+import {generateWithResilience} from '@/ai/resilience';
+import {enforceRateLimit} from '@/ai/rate-limit/limiter';
+import {assertAiBudgetAvailable} from '@/ai/usage/budget';
+import {logger} from '@/ai/observability/logger';
+import {traceAiAction, withSpan} from '@/ai/observability/tracing';
+import {getPromptTemplate} from '@/ai/prompts/registry';
+import {assignTryOnPrompt} from '@/ai/prompts/experiments';
+import {rankTryOnCandidates} from '@/ai/ranking';
+import {judgeTryOnFlowDefinition, TryOnJudgementSchema, type TryOnJudgement} from './judge-flow';
+import {getGarmentCutout} from '@/ai/preprocessing/garment-cutout';
+import {checkCanvasIntegrity} from '@/ai/verification/canvas-integrity';
+import {
+  checkFaceIdentity,
+  prepareIdentityReference,
+  type IdentityCheckResult,
+  type IdentityReference,
+} from '@/ai/verification/face-identity';
+import {
+  correctGarmentColour,
+  extractItemPalette,
+  measureColourFidelity,
+  type ColourFidelityResult,
+  type ColourPalette,
+} from '@/ai/verification/colour-fidelity';
+import {normaliseUserPhoto} from '@/ai/images/normalize-user-photo';
+import {getTryOnCacheKey, readCachedTryOn, writeCachedTryOn} from '@/ai/cache/result-cache';
+import {hashKey} from '@/ai/cache/disk-cache';
+import {isDataUri} from '@/ai/images/data-uri';
+import {loadImage} from '@/ai/images/load-image';
+import {GARMENT_REGIONS} from '@/lib/products';
+
+const TRY_ON_TEMPERATURE = 0.2;
+const DEFAULT_CANDIDATES = 2;
+/** Generations per candidate before a canvas-integrity failure is reported. */
+const MAX_INTEGRITY_ATTEMPTS = 2;
+/**
+ * `flag` (the default) keeps candidates whose face failed the identity check and marks them;
+ * `reject` regenerates them like canvas-integrity failures and finally rejects them.
+ */
+const IDENTITY_CHECK_MODE = process.env.IDENTITY_CHECK_MODE === 'reject' ? 'reject' : 'flag';
+const MAX_CANDIDATES = 4;
+
+const GenerateAiTryOnInputSchema = z.object({
+  userImage: z
+    .string()
+    .describe(
+      "The user's image as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
+    ),
+  itemImage: z
+    .string()
+    .describe(
+      'The item image as a data URI or an HTTP/S URL. Genkit handles HTTP/S URLs for Gemini calls. For direct SDK calls, HTTP/S URLs must be fetched and converted. Expected format for data URI: data:<mimetype>;base64,<encoded_data>.'
+    ),
+  garmentRegion: z
+    .enum(GARMENT_REGIONS)
+    .describe('The body region the item is worn on. Selects the region-specific try-on prompt template.'),
+  promptVersion: z
+    .string()
+    .optional()
+    .describe('Pins a prompt template, e.g. "vito-try-on@v2". When omitted, the active prompt experiment assigns one.'),
+  isolateGarment: z
+    .boolean()
+    .optional()
+    .describe(
+      'Whether to replace the item image with a cached, background-removed cutout before generation. Defaults to true; offline providers always use the original image.'
+    ),
+  correctColour: z
+    .boolean()
+    .optional()
+    .describe('Whether to shift the garment region towards the item\'s colours when the generated shade is outside tolerance. Defaults to false.'),
+  bypassCache: z
+    .boolean()
+    .optional()
+    .describe('Skip the result cache and always regenerate. The fresh result still replaces the cached one.'),
+  candidateCount: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_CANDIDATES)
+    .optional()
+    .describe(`How many candidates to generate in parallel before ranking. Defaults to ${DEFAULT_CANDIDATES}.`),
+  model: z.enum(TRY_ON_MODEL_IDS).describe('The AI model to use for generating the try-on image. Each model id is served by a provider in the try-on provider registry: "googleai/gemini-2.0-flash" uses Genkit with Gemini Flash, "imagen3" and "imagen4" use the raw SDK (not yet able to perform try-on), and "mock" composites the images locally with no API key or network (only in mock mode or development; rejected otherwise).'),
+});
+
+export type GenerateAiTryOnInput = z.infer<typeof GenerateAiTryOnInputSchema>;
+
+const TryOnCandidateSchema = z.object({
+  generatedImage: z
+    .string()
+    .describe('The AI-generated image of the user wearing the selected item, as a data URI.'),
+  rank: z.number().int().describe('1-based position after ranking; 1 is the best candidate.'),
+  score: z.number().describe('Overall ranking score in [0, 1].'),
+  scores: z.record(z.number()).describe('Per-scorer ranking signals in [0, 1], keyed by scorer name.'),
+  provider: z.string().describe('The try-on provider that generated this candidate.'),
+  model: z.enum(TRY_ON_MODEL_IDS).describe('The model that generated this candidate; differs from the requested model after a fallback.'),
+  attempts: z.number().int().describe('Provider calls the resilience policy made for this candidate, across retries and fallbacks.'),
+  latencyMs: z.number().describe('How long the provider took to produce this candidate, including retries and fallbacks.'),
+  canvasIntegrity: z
+    .object({
+      score: z.number().describe('Share of pixels outside the garment region left unchanged, in [0, 1].'),
+      changedOutsideRatio: z.number(),
+      changedInsideRatio: z.number(),
+      offset: z.object({x: z.number(), y: z.number()}),
+      passed: z.boolean(),
+    })
+    .describe('Result of the post-generation "lock the user canvas" verification.'),
+  identity: z
+    .object({
+      faceDetected: z
+        .boolean()
+        .describe('Whether the check ran: false when no face was found in the user photo or the face model failed.'),
+      similarity: z
+        .number()
+        .optional()
+        .describe('1 minus the Euclidean distance of the input and output face descriptors, in [0, 1]; 0 when the face is gone.'),
+      passed: z.boolean(),
+      analyser: z.string().describe('The local face model that produced the similarity.'),
+    })
+    .describe('Result of the post-generation face identity check.'),
+  colourFidelity: z
+    .object({
+      deltaE: z.number().describe('CIEDE2000 distance between the item and garment palettes, after any correction.'),
+      deltaEBeforeCorrection: z.number().optional().describe('The distance as generated, when the garment was colour-corrected.'),
+      score: z.number().describe('Colour fidelity in [0, 1]; 1 is an exact match.'),
+      withinTolerance: z.boolean(),
+      corrected: z.boolean().describe('Whether the colour-correction pass was applied to the garment region.'),
+      itemPalette: z.array(z.object({hex: z.string(), share: z.number()})),
+      garmentPalette: z.array(z.object({hex: z.string(), share: z.number()})),
+    })
+    .optional()
+    .describe('Result of the garment colour fidelity check; absent when the item or the garment could not be measured.'),
+});
+
+export type TryOnCandidate = z.infer<typeof TryOnCandidateSchema>;
+
+const GenerateAiTryOnOutputSchema = z.object({
+  candidates: z
+    .array(TryOnCandidateSchema)
+    .describe('The generated candidates, ordered best-first by the ranking step.'),
+  promptVersion: z.string().describe('The versioned prompt template that produced the image, e.g. "vito-try-on@v1".'),
+  experimentId: z.string().optional().describe('The prompt experiment that assigned the version, if any.'),
+  cached: z.boolean().describe('Whether this result was served from the try-on result cache.'),
+  judgement: TryOnJudgementSchema.optional().describe(
+    'The judge\'s assessment of the best candidate; absent when judging failed or the image was composited offline.'
+  ),
+});
+
+export type GenerateAiTryOnOutput = z.infer<typeof GenerateAiTryOnOutputSchema>;
+
+const TRY_ON_STAGES = ['normalising', 'preparing', 'generating', 'verifying', 'judging'] as const;
+
+export type TryOnStage = (typeof TRY_ON_STAGES)[number];
+
+const TryOnProgressEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('stage'),
+    stage: z.enum(TRY_ON_STAGES),
+    message: z.string().describe('Human-readable description of what is happening.'),
+    candidateIndex: z.number().int().optional().describe('The candidate this event is about, for per-candidate stages.'),
+  }),
+  z.object({
+    type: z.literal('commentary'),
+    candidateIndex: z.number().int(),
+    text: z.string().describe('A fragment of text the model streamed alongside the image.'),
+  }),
+]);
+
+export type TryOnProgressEvent = z.infer<typeof TryOnProgressEventSchema>;
+
+/** Drops the Lab values from the palettes; `uncorrected` is the measurement before a colour-correction pass. */
+function toCandidateColourFidelity(
+  fidelity: ColourFidelityResult,
+  uncorrected?: ColourFidelityResult
+): TryOnCandidate['colourFidelity'] {
+  return {
+    deltaE: fidelity.deltaE,
+    deltaEBeforeCorrection: uncorrected?.deltaE,
+    score: fidelity.score,
+    withinTolerance: fidelity.withinTolerance,
+    corrected: uncorrected !== undefined,
+    itemPalette: fidelity.itemPalette.map(({hex, share}) => ({hex, share})),
+    garmentPalette: fidelity.garmentPalette.map(({hex, share}) => ({hex, share})),
+  };
+}
+
+export const generateAiTryOnFlowDefinition = ai.defineFlow(
+  {
+    name: 'generateAiTryOnFlowDefinition',
+    inputSchema: GenerateAiTryOnInputSchema,
+    outputSchema: GenerateAiTryOnOutputSchema,
+    streamSchema: TryOnProgressEventSchema,
+  },
+  async (input: GenerateAiTryOnInput, {sendChunk}): Promise<GenerateAiTryOnOutput> => {
+    const reportStage = (stage: TryOnStage, message: string, candidateIndex?: number) =>
+      sendChunk({type: 'stage', stage, message, candidateIndex});
+
+    reportStage('normalising', 'Preparing your photo...');
+    const userPhoto = await normaliseUserPhoto(input.userImage);
+    const userImage = userPhoto.dataUri;
+
+    const provider = resolveTryOnProvider(input.model);
+    if (!provider.capabilities.supportsTryOn) {
+      logger.error('The selected model does not support virtual try-on.', {model: input.model, provider: provider.id});
+      throw new AiFlowError({
+        kind: 'unsupported_model',
+        model: input.model,
+        message: `The selected AI model (${input.model}) is not supported for this virtual try-on task. Please choose another model.`,
+      });
+    }
+
+    const assignment = assignTryOnPrompt(userPhoto.contentHash, {pinnedVersion: input.promptVersion});
+    const template = getPromptTemplate(assignment.promptVersion);
+
+    const candidateCount = input.candidateCount ?? DEFAULT_CANDIDATES;
+    // Isolation is a paid model call, so it only runs for providers that make real calls and will use the cutout.
+    const isolateGarment = input.isolateGarment !== false && !provider.capabilities.offline;
+    // Offline providers never fetch a remote item, so their output depends on the URL alone.
+    const itemSource =
+      provider.capabilities.offline && !isDataUri(input.itemImage)
+        ? undefined
+        : await loadImage(input.itemImage, {field: 'itemImage'});
+    const sourceItemImage = itemSource?.dataUri ?? input.itemImage;
+    const itemImageHash = itemSource?.contentHash ?? hashKey('url', input.itemImage);
+    const cacheKey = getTryOnCacheKey({
+      userImageHash: userPhoto.contentHash,
+      itemImageHash,
+      model: `${provider.id}:${input.model}`,
+      promptVersion: assignment.promptVersion,
+      config: {
+        garmentRegion: input.garmentRegion,
+        candidateCount,
+        isolateGarment,
+        correctColour: input.correctColour ?? false,
+        temperature: TRY_ON_TEMPERATURE,
+      },
+    });
+    if (!input.bypassCache) {
+      const cached = await readCachedTryOn<Omit<GenerateAiTryOnOutput, 'cached'>>(cacheKey);
+      if (cached) {
+        logger.info('Serving cached try-on result.', {model: input.model, promptVersion: assignment.promptVersion});
+        return {...cached, cached: true};
+      }
+    }
+
+    logger.info('Dispatching AI try-on candidates.', {candidateCount, model: input.model, provider: provider.id, prompt: template.ref});
+    const prompt = template.render(input.garmentRegion);
+    if (isolateGarment) {
+      reportStage('preparing', 'Isolating the item from its product photo...');
+    }
+    const [itemImage, identityReference, itemPalette] = await Promise.all([
+      isolateGarment ? getGarmentCutout(sourceItemImage, input.garmentRegion) : sourceItemImage,
+      prepareIdentityReference(userImage).catch((error): IdentityReference => {
+        // Without a reference face every candidate's check is skipped rather than failed.
+        logger.warn('Could not analyse the face in the user photo; skipping the identity check.', {error});
+        return {analyser: 'unavailable'};
+      }),
+      extractItemPalette(sourceItemImage).catch((error): ColourPalette | undefined => {
+        logger.warn('Could not extract the item palette; skipping the colour fidelity check.', {error});
+        return undefined;
+      }),
+    ]);
+
+    const checkColourFidelity = async (generatedImage: string, candidateIndex: number) => {
+      if (!itemPalette) {
+        return {generatedImage, colourFidelity: undefined};
+      }
+      reportStage('verifying', `Checking look ${candidateIndex + 1} matches the item's colours...`, candidateIndex);
+      const measured = await measureColourFidelity(userImage, generatedImage, itemPalette, input.garmentRegion);
+      if (!measured || measured.withinTolerance || !input.correctColour) {
+        if (measured && !measured.withinTolerance) {
+          logger.warn('Try-on candidate is outside colour tolerance.', {candidateIndex, deltaE: measured.deltaE});
+        }
+        return {generatedImage, colourFidelity: measured && toCandidateColourFidelity(measured)};
+      }
+      reportStage('verifying', `Correcting the colours of look ${candidateIndex + 1}...`, candidateIndex);
+      const correctedImage = await correctGarmentColour(userImage, generatedImage, measured, input.garmentRegion);
+      const remeasured = await measureColourFidelity(userImage, correctedImage, itemPalette, input.garmentRegion);
+      logger.info('Colour-corrected try-on candidate.', {candidateIndex, deltaEBefore: measured.deltaE, deltaEAfter: remeasured?.deltaE});
+      return {generatedImage: correctedImage, colourFidelity: toCandidateColourFidelity(remeasured ?? measured, measured)};
+    };
+
+    const generateVerifiedCandidate = async (candidateIndex: number) => {
+      let lastFailure: AiError | undefined;
+      for (let attempt = 0; attempt < MAX_INTEGRITY_ATTEMPTS; attempt++) {
+        reportStage(
+          'generating',
+          attempt === 0
+            ? `Generating look ${candidateIndex + 1} of ${candidateCount}...`
+            : `Regenerating look ${candidateIndex + 1} (attempt ${attempt + 1})...`,
+          candidateIndex
+        );
+        const startedAt = Date.now();
+        const {generatedImage, model, provider: producedBy, attempts} = await generateWithResilience(
+          input.model,
+          {
+            userImage,
+            itemImage,
+            garmentRegion: input.garmentRegion,
+            prompt,
+            temperature: TRY_ON_TEMPERATURE,
+            candidateIndex: candidateIndex + attempt * candidateCount,
+            onCommentary: text => sendChunk({type: 'commentary', candidateIndex, text}),
+          },
+          notice =>
+            reportStage(
+              'generating',
+              notice.fallback
+                ? `Switching look ${candidateIndex + 1} to ${notice.model} after a ${notice.error.kind.replace(/_/g, ' ')} error...`
+                : `Retrying look ${candidateIndex + 1} after a ${notice.error.kind.replace(/_/g, ' ')} error...`,
+              candidateIndex
+            )
+        );
+        const latencyMs = Date.now() - startedAt;
+        reportStage('verifying', `Checking look ${candidateIndex + 1} left the rest of your photo untouched...`, candidateIndex);
+        const canvasIntegrity = await checkCanvasIntegrity(userImage, generatedImage, input.garmentRegion);
+        if (!canvasIntegrity.passed) {
+          logger.warn('Try-on candidate failed the canvas-integrity check.', {
+            candidateIndex,
+            score: canvasIntegrity.score,
+            attempt: attempt + 1,
+          });
+          lastFailure = {
+            kind: 'integrity_check_failed',
+            score: canvasIntegrity.score,
+            message: 'The AI changed parts of your photo outside the garment area. Please try again.',
+          };
+          continue;
+        }
+        reportStage('verifying', `Checking look ${candidateIndex + 1} kept your face...`, candidateIndex);
+        const identity = await checkFaceIdentity(identityReference, generatedImage).catch(
+          (error): IdentityCheckResult => {
+            logger.warn('Could not analyse the face in a try-on candidate; skipping its identity check.', {candidateIndex, error});
+            return {faceDetected: false, passed: true, analyser: identityReference.analyser};
+          }
+        );
+        if (!identity.passed) {
+          logger.warn('Try-on candidate failed the identity check.', {
+            candidateIndex,
+            similarity: identity.similarity,
+            attempt: attempt + 1,
+          });
+          if (IDENTITY_CHECK_MODE === 'reject') {
+            lastFailure = {
+              kind: 'integrity_check_failed',
+              score: identity.similarity ?? 0,
+              message: 'The AI changed your face. Please try again.',
+            };
+            continue;
+          }
+        }
+        const colour = await checkColourFidelity(generatedImage, candidateIndex);
+        return {provider: producedBy, model, attempts, latencyMs, canvasIntegrity, identity, ...colour};
+      }
+      throw new AiFlowError(lastFailure!);
+    };
+
+    // Judged here, from images the server already holds, so only the assessment travels to the client.
+    const judgeBestCandidate = async (best: TryOnCandidate): Promise<TryOnJudgement | undefined> => {
+      if (provider.capabilities.offline && !isMockMode()) {
+        // A local composite is not worth a paid model call; mock mode answers with a placeholder instead.
+        return undefined;
+      }
+      reportStage('judging', 'Scoring the best look...');
+      return judgeTryOnFlowDefinition({
+        userImage,
+        itemImage: sourceItemImage,
+        generatedImage: best.generatedImage,
+        garmentRegion: input.garmentRegion,
+        model: best.model,
+        promptVersion: assignment.promptVersion,
+      }).catch((error): undefined => {
+        // The score is informational; a failed judgement leaves the result as it is.
+        logger.warn('Could not judge the best try-on candidate.', {error});
+        return undefined;
+      });
+    };
+
+    const settled = await Promise.allSettled(
+      Array.from({length: candidateCount}, (_, candidateIndex) =>
+        withSpan('try-on.candidate', {'tryon.candidate_index': candidateIndex}, () => generateVerifiedCandidate(candidateIndex))
+      )
+    );
+
+    const generated = settled.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+    const failures = settled.flatMap(result => (result.status === 'rejected' ? [result.reason] : []));
+    if (generated.length === 0) {
+      logger.error('Every try-on candidate failed.', {provider: provider.id, model: input.model, failures});
+      throw new AiFlowError(toAiError(failures[0]), {cause: failures[0]});
+    }
+    if (failures.length > 0) {
+      logger.warn('Some try-on candidates failed; ranking the rest.', {failed: failures.length, candidateCount, failures});
+    }
+
+    const candidates = await rankTryOnCandidates(generated, {userImage});
+    const judgement = await judgeBestCandidate(candidates[0]);
+    const result = {candidates, ...assignment, judgement};
+    await writeCachedTryOn(cacheKey, result);
+    return {...result, cached: false};
+  }
+);
+
+export const generateAiTryOnStreamingFlow = ai.defineFlow(
+  {
+    name: 'generateAiTryOnStreamingFlow',
+    inputSchema: GenerateAiTryOnInputSchema,
+    outputSchema: z.custom<AiResult<GenerateAiTryOnOutput>>(),
+    streamSchema: TryOnProgressEventSchema,
+  },
+  async (input: GenerateAiTryOnInput, {sendChunk}): Promise<AiResult<GenerateAiTryOnOutput>> => {
+    // Errors are returned rather than thrown so the typed `AiError` survives the HTTP stream.
+    return traceAiAction('generate-try-on', {'tryon.model': input.model, 'tryon.garment_region': input.garmentRegion}, async () => {
+      try {
+        await enforceRateLimit('generation');
+        await assertAiBudgetAvailable();
+        const {result} = await generateAiTryOnFlowDefinition.run(input, {onChunk: sendChunk});
+        return {ok: true, data: result};
+      } catch (error) {
+        return {ok: false, error: toAiError(error)};
+      }
+    });
+  }
+);
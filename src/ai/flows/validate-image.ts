@@ -1,15 +1,56 @@
 'use server';
 
 /**
- * @fileOverview Image validation flow for AI try-on to ensure the image is front-facing and suitable.
+ * @fileOverview Image validation flow for AI try-on to ensure the photo suits the item being tried on.
  *
- * - validateImage - A function that validates the image and provides suggestions.
+ * The photo is scored on a fixed set of checks. File integrity, resolution,
+ * aspect ratio, exposure and sharpness are measured locally first, and a photo
+ * that fails any of them is rejected without a model call. The rest are judged
+ * by the model against the requirements of the item's garment region (e.g.
+ * visible ears for earrings, the full lower body for jeans) and pass at
+ * `VALIDATION_PASS_SCORE` or above. The photo is valid only when every check
+ * passes.
+ *
+ * Alongside the checks, the flow returns annotations: labelled boxes on the
+ * normalised photo (the face, cropped or covered body parts, other people,
+ * blown-out or crushed areas) that the studio draws over the preview, and
+ * fix actions for failures that can be corrected without a reshoot (see
+ * `fix-image.ts`).
+ *
+ * - validateImage - A function that validates the image and provides suggestions, returning a typed error on failure or when the visitor's validation budget is spent.
  * - ValidateImageInput - The input type for the validateImage function.
  * - ValidateImageOutput - The return type for the validateImage function.
+ * - ValidationCheck - The result of one validation check.
+ * - ValidationCheckId - The id of a validation check.
+ * - ValidationAnnotation - A labelled area of the photo that explains a check result.
  */
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {isMockMode} from '@/ai/providers';
+import {recordReplay} from '@/ai/record-replay';
+import {meterModelUsage} from '@/ai/usage/metering';
+import {AiFlowError, toAiError, type AiResult} from '@/ai/errors';
+import {enforceRateLimit} from '@/ai/rate-limit/limiter';
+import {assertAiBudgetAvailable} from '@/ai/usage/budget';
+import {traceAiAction} from '@/ai/observability/tracing';
+import {getRegionPromptSpec} from '@/ai/prompts/regions';
+import {PHOTO_HEURISTIC_IDS, runPhotoHeuristics, type PhotoHeuristicCheck} from '@/ai/validation/photo-heuristics';
+import {MAX_STRAIGHTEN_DEGREES, PhotoFixActionSchema, type PhotoFixAction} from '@/ai/images/photo-fixes';
+import {GARMENT_REGIONS} from '@/lib/products';
+
+const MODEL_CHECK_IDS = ['pose', 'framing', 'body_coverage', 'lighting', 'occlusion', 'multiple_people'] as const;
+
+const VALIDATION_CHECK_IDS = [...PHOTO_HEURISTIC_IDS, ...MODEL_CHECK_IDS] as const;
+
+export type ValidationCheckId = (typeof VALIDATION_CHECK_IDS)[number];
+
+/** Minimum score in [0, 1] for a model-judged check to pass. */
+const VALIDATION_PASS_SCORE = 0.6;
+/** Smallest camera tilt, in degrees, worth a straighten fix. */
+const MIN_STRAIGHTEN_DEGREES = 3;
+/** Margin added around the person, as a share of their box, when cropping to them. */
+const PERSON_CROP_MARGIN = 0.15;
 
 const ValidateImageInputSchema = z.object({
   photoDataUri: z
@@ -17,38 +58,154 @@ const ValidateImageInputSchema = z.object({
     .describe(
       "A photo of a person, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
     ),
+  garmentRegion: z
+    .enum(GARMENT_REGIONS)
+    .describe('The body region of the item to be tried on; decides which parts of the body must be visible.'),
 });
 export type ValidateImageInput = z.infer<typeof ValidateImageInputSchema>;
 
+const ValidationCheckSchema = z.object({
+  id: z.enum(VALIDATION_CHECK_IDS),
+  score: z.number().describe('How well the photo meets this check, in [0, 1].'),
+  passed: z.boolean(),
+  detail: z.string().describe('What was observed, in one sentence.'),
+});
+export type ValidationCheck = z.infer<typeof ValidationCheckSchema>;
+
+const MODEL_ANNOTATION_KINDS = ['face', 'cropped_body_part', 'occlusion', 'other_person'] as const;
+
+const ValidationAnnotationSchema = z.object({
+  kind: z.enum(['overexposed', 'underexposed', ...MODEL_ANNOTATION_KINDS]),
+  label: z.string().describe('Short caption to draw next to the box.'),
+  problem: z.boolean().describe('Whether the area is a problem, rather than context such as the detected face.'),
+  box: z
+    .object({left: z.number(), top: z.number(), width: z.number(), height: z.number()})
+    .describe('Position on the normalised photo, 0..1 on both axes.'),
+});
+export type ValidationAnnotation = z.infer<typeof ValidationAnnotationSchema>;
+
 const ValidateImageOutputSchema = z.object({
   isValid: z.boolean().describe('Whether the image is valid for AI try-on or not.'),
   reason: z.string().describe('The reason for invalidity, if any.'),
   suggestions: z.string().describe('Suggestions to improve the image, if any.'),
+  checks: z.array(ValidationCheckSchema).describe('Per-check results, in a fixed order.'),
+  annotations: z.array(ValidationAnnotationSchema).describe('Areas of the photo that explain the check results.'),
+  fixes: z
+    .array(PhotoFixActionSchema)
+    .describe('Automatic fixes for the failed checks that can be corrected without a reshoot; apply them with fixImage.'),
+  imageSize: z
+    .object({width: z.number(), height: z.number()})
+    .optional()
+    .describe('Size of the normalised photo the annotations refer to; missing when the file could not be read.'),
 });
 export type ValidateImageOutput = z.infer<typeof ValidateImageOutputSchema>;
 
-export async function validateImage(input: ValidateImageInput): Promise<ValidateImageOutput> {
-  return validateImageFlow(input);
+export async function validateImage(input: ValidateImageInput): Promise<AiResult<ValidateImageOutput>> {
+  return traceAiAction('validate-image', {'tryon.garment_region': input.garmentRegion}, async () => {
+    try {
+      await enforceRateLimit('validation');
+      await assertAiBudgetAvailable();
+      return {ok: true, data: await validateImageFlow(input)};
+    } catch (error) {
+      return {ok: false, error: toAiError(error)};
+    }
+  });
 }
 
+const ModelCheckSchema = z.object({
+  score: z.number().describe('0 = fails completely, 1 = fully meets the requirement.'),
+  detail: z.string().describe('One short sentence on what you see.'),
+});
+
+const ModelAssessmentSchema = z.object({
+  pose: ModelCheckSchema.describe('Is the person facing the camera, upright, in a natural pose?'),
+  framing: ModelCheckSchema.describe('Is the person centred, in focus and reasonably large in the frame?'),
+  body_coverage: ModelCheckSchema.describe('Is the required part of the body fully in frame and visible?'),
+  lighting: ModelCheckSchema.describe('Is the lighting even, neither too dark nor blown out?'),
+  occlusion: ModelCheckSchema.describe('Is the required part of the body free of objects, hands, hair or clothing covering it?'),
+  multiple_people: ModelCheckSchema.describe('Is exactly one person in the photo? Score 0 if several people are visible.'),
+  regions: z
+    .array(
+      z.object({
+        kind: z.enum(MODEL_ANNOTATION_KINDS),
+        label: z.string().describe('A short caption, e.g. "Left ear covered by hair".'),
+        box_2d: z.array(z.number()).describe('[ymin, xmin, ymax, xmax], each from 0 to 1000.'),
+      })
+    )
+    .describe('Bounding boxes for the face and for every problem area.'),
+  person_box_2d: z
+    .array(z.number())
+    .describe('[ymin, xmin, ymax, xmax] of the main person, each from 0 to 1000, or an empty array if there is no person.'),
+  tilt_degrees: z
+    .number()
+    .describe('How far the camera is rolled, in degrees: positive if the scene appears rotated clockwise, 0 if level.'),
+  suggestions: z.string().describe('Concrete suggestions to improve the photo, or an empty string if it is fine.'),
+});
+
+const VALIDATION_MODEL = 'googleai/gemini-2.0-flash';
+
 const prompt = ai.definePrompt({
   name: 'validateImagePrompt',
-  input: {schema: ValidateImageInputSchema},
-  output: {schema: ValidateImageOutputSchema},
-  prompt: `You are an AI image validator for an AI try-on application.  You will determine if the image is suitable for AI try-on.
+  model: VALIDATION_MODEL,
+  use: [recordReplay('validate-image', VALIDATION_MODEL), meterModelUsage('validate-image', VALIDATION_MODEL)],
+  input: {
+    schema: z.object({
+      photoDataUri: z.string(),
+      itemShort: z.string(),
+      requiredCoverage: z.string(),
+    }),
+  },
+  output: {schema: ModelAssessmentSchema},
+  prompt: `You are an AI image validator for an AI try-on application. The user wants to try on {{itemShort}}, so the photo must show {{requiredCoverage}}.
+
+  Score each check from 0 to 1 and describe what you see in one sentence:
+  - pose: the person faces the camera, upright, in a natural pose
+  - framing: the person is centred, in focus and fills a good part of the frame
+  - body_coverage: the photo shows {{requiredCoverage}}
+  - lighting: even lighting, not too dark and not overexposed
+  - occlusion: nothing (objects, hands, hair, clothing) covers the part of the body needed for the {{itemShort}}
+  - multiple_people: exactly one person is in the photo
 
-  Specifically, you will check if the image:
-  - Is front-facing
-  - Has good lighting
-  - Has a clear view of the face
+  Also give the bounding box of the main person and how many degrees the camera is tilted.
 
-  If the image is not valid, you will provide a reason and suggestions for improvement.
+  Then list regions as bounding boxes: always the main person's face (kind "face"), plus any body part the {{itemShort}} needs that is cut off by the frame edge ("cropped_body_part"), anything covering it ("occlusion") and any other person ("other_person").
+
+  Then give concrete suggestions to improve the photo for trying on {{itemShort}}.
 
   Here is the image:
   {{media url=photoDataUri}}
 `,
 });
 
+function toModelCheck(id: (typeof MODEL_CHECK_IDS)[number], score: number, detail: string): ValidationCheck {
+  const clamped = Math.min(1, Math.max(0, Number.isFinite(score) ? score : 0));
+  return {id, score: clamped, passed: clamped >= VALIDATION_PASS_SCORE, detail};
+}
+
+/** Converts a Gemini-style `[ymin, xmin, ymax, xmax]` box on a 0-1000 scale, or returns undefined if it is malformed. */
+function fromBox2d(box2d: number[]): ValidationAnnotation['box'] | undefined {
+  if (box2d.length !== 4 || !box2d.every(Number.isFinite)) {
+    return undefined;
+  }
+  const [ymin, xmin, ymax, xmax] = box2d.map(value => Math.min(1, Math.max(0, value / 1000)));
+  if (xmax <= xmin || ymax <= ymin) {
+    return undefined;
+  }
+  return {left: xmin, top: ymin, width: xmax - xmin, height: ymax - ymin};
+}
+
+function cropToPerson(person: ValidationAnnotation['box']): PhotoFixAction {
+  const left = Math.max(0, person.left - person.width * PERSON_CROP_MARGIN);
+  const top = Math.max(0, person.top - person.height * PERSON_CROP_MARGIN);
+  const right = Math.min(1, person.left + person.width * (1 + PERSON_CROP_MARGIN));
+  const bottom = Math.min(1, person.top + person.height * (1 + PERSON_CROP_MARGIN));
+  return {type: 'auto_crop', box: {left, top, width: right - left, height: bottom - top}};
+}
+
+function toValidationCheck({suggestion: _suggestion, fix: _fix, ...check}: PhotoHeuristicCheck): ValidationCheck {
+  return check;
+}
+
 const validateImageFlow = ai.defineFlow(
   {
     name: 'validateImageFlow',
@@ -56,7 +213,70 @@ const validateImageFlow = ai.defineFlow(
     outputSchema: ValidateImageOutputSchema,
   },
   async input => {
-    const {output} = await prompt(input);
-    return output!;
+    const heuristics = await runPhotoHeuristics(input.photoDataUri, 'photoDataUri');
+    const localChecks = heuristics.checks.map(toValidationCheck);
+    const localAnnotations: ValidationAnnotation[] = heuristics.annotations.map(annotation => ({
+      ...annotation,
+      problem: !heuristics.checks.find(check => check.id === 'exposure')?.passed,
+    }));
+    const imageSize = heuristics.photo && {width: heuristics.photo.width, height: heuristics.photo.height};
+    const localFixes = heuristics.checks.flatMap(check => (!check.passed && check.fix ? [check.fix] : []));
+    if (!heuristics.passed || !heuristics.photo) {
+      // Obvious failures are reported straight away; the model would only confirm them.
+      const failed = heuristics.checks.filter(check => !check.passed);
+      return {
+        isValid: false,
+        reason: failed.map(check => check.detail).join(' '),
+        suggestions: failed.flatMap(check => (check.suggestion ? [check.suggestion] : [])).join(' '),
+        checks: localChecks,
+        annotations: localAnnotations,
+        fixes: localFixes,
+        imageSize,
+      };
+    }
+
+    let modelChecks: ValidationCheck[];
+    let modelAnnotations: ValidationAnnotation[] = [];
+    const modelFixes: PhotoFixAction[] = [];
+    let suggestions: string;
+    if (isMockMode()) {
+      // Offline mode: only the local checks run, so the studio works without an API key.
+      modelChecks = MODEL_CHECK_IDS.map(id => toModelCheck(id, 1, 'Not checked in offline mode.'));
+      suggestions = '';
+    } else {
+      const {itemShort, requiredCoverage} = getRegionPromptSpec(input.garmentRegion);
+      const {output} = await prompt({photoDataUri: heuristics.photo.dataUri, itemShort, requiredCoverage});
+      if (!output) {
+        throw new AiFlowError({kind: 'unknown', message: 'The image validator did not return a result.'});
+      }
+      modelChecks = MODEL_CHECK_IDS.map(id => toModelCheck(id, output[id].score, output[id].detail));
+      modelAnnotations = output.regions.flatMap(({kind, label, box_2d}) => {
+        const box = fromBox2d(box_2d);
+        return box ? [{kind, label, problem: kind !== 'face', box}] : [];
+      });
+      const person = fromBox2d(output.person_box_2d);
+      const framing = modelChecks.find(check => check.id === 'framing');
+      if (person && framing && !framing.passed) {
+        modelFixes.push(cropToPerson(person));
+      }
+      const pose = modelChecks.find(check => check.id === 'pose');
+      const tilt = Math.abs(output.tilt_degrees);
+      if (pose && !pose.passed && tilt >= MIN_STRAIGHTEN_DEGREES && tilt <= MAX_STRAIGHTEN_DEGREES) {
+        modelFixes.push({type: 'straighten', degrees: output.tilt_degrees});
+      }
+      suggestions = output.suggestions;
+    }
+
+    const checks = [...localChecks, ...modelChecks];
+    const failed = checks.filter(check => !check.passed);
+    return {
+      isValid: failed.length === 0,
+      reason: failed.map(check => check.detail).join(' '),
+      suggestions: failed.length === 0 ? '' : suggestions,
+      checks,
+      annotations: [...localAnnotations, ...modelAnnotations],
+      fixes: [...localFixes, ...modelFixes],
+      imageSize,
+    };
   }
 );
@@ -0,0 +1,26 @@
+/**
+ * @fileOverview Approximate image-space placement of each garment region.
+ *
+ * Boxes are normalised to the user image (0..1 on both axes) and assume a
+ * front-facing, roughly centred photo. They are estimates used where no
+ * segmentation is available, e.g. by the mock provider to place the item.
+ */
+
+import type {GarmentRegion} from '@/lib/products';
+
+export interface NormalisedBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export const GARMENT_REGION_BOXES: Record<GarmentRegion, NormalisedBox> = {
+  upper_body: {left: 0.2, top: 0.25, width: 0.6, height: 0.4},
+  lower_body: {left: 0.25, top: 0.55, width: 0.5, height: 0.45},
+  full_body: {left: 0.2, top: 0.25, width: 0.6, height: 0.75},
+  ears: {left: 0.3, top: 0.1, width: 0.4, height: 0.15},
+  neck: {left: 0.35, top: 0.2, width: 0.3, height: 0.15},
+  wrist: {left: 0.1, top: 0.5, width: 0.8, height: 0.15},
+  finger: {left: 0.1, top: 0.55, width: 0.8, height: 0.15},
+};
@@ -1,10 +1,14 @@
 import {genkit} from 'genkit';
 import {googleAI} from '@genkit-ai/googleai';
+import {isMockMode} from '@/ai/providers/registry';
+import {isReplayMode} from '@/ai/record-replay';
 // Removed VertexAI plugin as it's not used for Imagen with the direct SDK approach.
 
 export const ai = genkit({
   plugins: [
-    googleAI(),
+    // The Google AI plugin refuses to initialise without an API key, so it is left out in offline mock mode.
+    // When replaying recorded calls no request reaches Google, so it is set up without a key.
+    ...(isMockMode() ? [] : [googleAI(isReplayMode() ? {apiKey: false} : undefined)]),
     // vertexAI() // Removed
   ],
   model: 'googleai/gemini-2.0-flash', // Default model for tasks like validation
@@ -0,0 +1,36 @@
+/**
+ * @fileOverview Helpers for working with base64 image data URIs.
+ *
+ * - parseImageDataUri - Splits an image data URI into its MIME type and base64 payload.
+ * - decodeImageDataUri - Returns the raw bytes of an image data URI.
+ * - toImageDataUri - Builds an image data URI from a MIME type and raw bytes.
+ * - isDataUri - Whether a string is a data URI (as opposed to an HTTP/S URL).
+ */
+
+export interface ImageDataDetails {
+  mimeType: string;
+  data: string;
+}
+
+export function isDataUri(uri: string): boolean {
+  return typeof uri === 'string' && uri.startsWith('data:');
+}
+
+export function parseImageDataUri(dataUri: string): ImageDataDetails {
+  if (!dataUri || typeof dataUri !== 'string') {
+    throw new Error('Invalid input: dataUri must be a non-empty string.');
+  }
+  const match = dataUri.match(/^data:(image\/[\w.+-]+);base64,(.*)$/);
+  if (!match) {
+    throw new Error('Invalid image data URI. Expected format: data:<mimetype>;base64,<encoded_data>');
+  }
+  return { mimeType: match[1], data: match[2] };
+}
+
+export function decodeImageDataUri(dataUri: string): Buffer {
+  return Buffer.from(parseImageDataUri(dataUri).data, 'base64');
+}
+
+export function toImageDataUri(mimeType: string, bytes: Buffer): string {
+  return `data:${mimeType};base64,${bytes.toString('base64')}`;
+}
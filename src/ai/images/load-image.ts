@@ -0,0 +1,319 @@
+/**
+ * @fileOverview Shared server-side image loader for every try-on provider.
+ *
+ * Accepts a data URI or an HTTP/S URL and returns a verified image as a data
+ * URI plus its MIME type and dimensions. URLs come from the client, so only
+ * the catalogue image hosts (`src/lib/image-hosts.ts`) are fetched, and each
+ * redirect is checked against them too; any other URL is `invalid_input`.
+ * Remote images are fetched with a timeout and a size cap, their content
+ * type and dimensions are checked with sharp, and the result is cached in
+ * memory and on disk keyed by URL and ETag (revalidated with
+ * `If-None-Match`). Broken URLs are remembered for a short while, in a
+ * bounded map, so repeated requests fail fast. The MIME type always comes
+ * from the decoded format, never the declared one, and only formats the
+ * image models accept (JPEG, PNG, WebP, HEIC) are let through.
+ *
+ * - loadImage - Loads and verifies an image from a data URI or URL.
+ * - LoadedImage - The verified image and its metadata.
+ */
+
+import {createHash} from 'crypto';
+import sharp from 'sharp';
+import {AiFlowError} from '@/ai/errors';
+import {createDiskCache, hashKey} from '@/ai/cache/disk-cache';
+import {isCatalogueImageUrl} from '@/lib/image-hosts';
+import {decodeImageDataUri, isDataUri, parseImageDataUri, toImageDataUri} from './data-uri';
+
+export interface LoadedImage {
+  dataUri: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  byteLength: number;
+  /** SHA-256 of the image bytes, as hex, so caches can key on content rather than URL. */
+  contentHash: string;
+}
+
+export interface LoadImageOptions {
+  /** Which input the image is for, used in error messages. */
+  field?: string;
+  timeoutMs?: number;
+  maxBytes?: number;
+}
+
+interface CachedImageMeta {
+  etag: string;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const MIN_DIMENSION = 64;
+const MAX_DIMENSION = 8192;
+/** How long a remote image is served from memory before it is revalidated. */
+const MEMORY_TTL_MS = 10 * 60 * 1000;
+const MEMORY_MAX_ENTRIES = 50;
+/** How long a failed URL keeps failing without being refetched. */
+const FAILURE_TTL_MS = 60 * 1000;
+const FAILURE_MAX_ENTRIES = 200;
+const MAX_REDIRECTS = 3;
+/** sharp's format names for the image types the models accept, and their MIME types. */
+const MODEL_MIME_TYPES: Partial<Record<keyof sharp.FormatEnum, string>> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  heif: 'image/heic',
+};
+/** Lets CDNs that negotiate on `Accept` pick a format the models can read. */
+const ACCEPT_HEADER = [...new Set(Object.values(MODEL_MIME_TYPES))].join(', ');
+
+const diskCache = createDiskCache('images');
+const memoryCache = new Map<string, {image: LoadedImage; etag?: string; loadedAt: number}>();
+const recentFailures = new Map<string, {error: AiFlowError; failedAt: number}>();
+
+function invalidImage(field: string, message: string): AiFlowError {
+  return new AiFlowError({kind: 'invalid_input', field, message});
+}
+
+function disallowedHost(field: string, url: string): AiFlowError {
+  return invalidImage(field, `The ${field} URL ${url} is not on an allowed image host.`);
+}
+
+function fetchTimeout(field: string, url: string, timeoutMs: number): AiFlowError {
+  return new AiFlowError({kind: 'upstream_timeout', message: `Timed out after ${timeoutMs}ms fetching the ${field} from ${url}.`});
+}
+
+/** Follows redirects by hand so every hop is checked against the allowed hosts. */
+async function fetchAllowedUrl(url: string, init: RequestInit, field: string): Promise<Response> {
+  let current = url;
+  for (let redirects = 0; ; redirects++) {
+    const response = await fetch(current, {...init, redirect: 'manual'});
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || response.status === 304 || !location) {
+      return response;
+    }
+    await response.body?.cancel();
+    if (redirects >= MAX_REDIRECTS) {
+      throw invalidImage(field, `The ${field} URL ${url} redirected more than ${MAX_REDIRECTS} times.`);
+    }
+    current = new URL(location, current).toString();
+    if (!isCatalogueImageUrl(current)) {
+      throw disallowedHost(field, current);
+    }
+  }
+}
+
+function rememberFailure(url: string, error: AiFlowError) {
+  const now = Date.now();
+  if (recentFailures.size >= FAILURE_MAX_ENTRIES) {
+    for (const [failedUrl, failure] of recentFailures) {
+      if (now - failure.failedAt >= FAILURE_TTL_MS) recentFailures.delete(failedUrl);
+    }
+  }
+  if (recentFailures.size >= FAILURE_MAX_ENTRIES) {
+    recentFailures.delete(recentFailures.keys().next().value!);
+  }
+  recentFailures.delete(url);
+  recentFailures.set(url, {error, failedAt: now});
+}
+
+function hashBytes(bytes: Buffer): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+function modelMimeType({format, compression}: sharp.Metadata): string | undefined {
+  // sharp reports AVIF as HEIF too; only HEVC-coded HEIF is HEIC, which the models read.
+  if (!format || (format === 'heif' && compression !== 'hevc')) {
+    return undefined;
+  }
+  return MODEL_MIME_TYPES[format];
+}
+
+async function verifyImage(bytes: Buffer, field: string): Promise<LoadedImage> {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(bytes).metadata();
+  } catch {
+    throw invalidImage(field, `The ${field} is not a readable image.`);
+  }
+  const {width, height} = metadata;
+  if (!width || !height) {
+    throw invalidImage(field, `Could not read the dimensions of the ${field}.`);
+  }
+  if (width < MIN_DIMENSION || height < MIN_DIMENSION || width > MAX_DIMENSION || height > MAX_DIMENSION) {
+    throw invalidImage(
+      field,
+      `The ${field} is ${width}x${height}; images must be between ${MIN_DIMENSION} and ${MAX_DIMENSION} pixels on each side.`
+    );
+  }
+  const mimeType = modelMimeType(metadata);
+  if (!mimeType) {
+    const format = metadata.format === 'heif' && metadata.compression === 'av1' ? 'avif' : metadata.format;
+    throw invalidImage(
+      field,
+      `The ${field} is in ${format ? `${format.toUpperCase()} format` : 'an unknown format'}; use JPEG, PNG, WebP or HEIC.`
+    );
+  }
+  return {dataUri: toImageDataUri(mimeType, bytes), mimeType, width, height, byteLength: bytes.length, contentHash: hashBytes(bytes)};
+}
+
+async function readBody(response: Response, url: string, maxBytes: number, field: string): Promise<Buffer> {
+  const declaredLength = Number(response.headers.get('content-length'));
+  if (declaredLength > maxBytes) {
+    throw invalidImage(field, `The ${field} at ${url} is ${declaredLength} bytes, over the ${maxBytes}-byte limit.`);
+  }
+  if (!response.body) {
+    return Buffer.from(await response.arrayBuffer());
+  }
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const {done, value} = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      throw invalidImage(field, `The ${field} at ${url} exceeds the ${maxBytes}-byte limit.`);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+function remember(url: string, image: LoadedImage, etag?: string) {
+  memoryCache.delete(url);
+  memoryCache.set(url, {image, etag, loadedAt: Date.now()});
+  if (memoryCache.size > MEMORY_MAX_ENTRIES) {
+    memoryCache.delete(memoryCache.keys().next().value!);
+  }
+}
+
+async function fetchRemoteImage(
+  url: string,
+  options: Required<LoadImageOptions>,
+  allowRevalidation = true
+): Promise<LoadedImage> {
+  const {field, timeoutMs, maxBytes} = options;
+  const urlKey = hashKey('url', url);
+  const metaBytes = await diskCache.get(`${urlKey}.json`);
+  const storedMeta: CachedImageMeta | undefined =
+    allowRevalidation && metaBytes ? JSON.parse(metaBytes.toString('utf8')) : undefined;
+  // Entries written before formats were checked may carry a MIME type the models reject; refetch those.
+  const cachedMeta = storedMeta && Object.values(MODEL_MIME_TYPES).includes(storedMeta.mimeType) ? storedMeta : undefined;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  let response: Response;
+  try {
+    response = await fetchAllowedUrl(
+      url,
+      {signal: controller.signal, headers: {Accept: ACCEPT_HEADER, ...(cachedMeta ? {'If-None-Match': cachedMeta.etag} : {})}},
+      field
+    );
+  } catch (error) {
+    clearTimeout(timer);
+    if (error instanceof AiFlowError) {
+      throw error;
+    }
+    if (controller.signal.aborted) {
+      throw fetchTimeout(field, url, timeoutMs);
+    }
+    throw invalidImage(field, `Could not fetch the ${field} from ${url}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  try {
+    if (response.status === 304 && cachedMeta) {
+      const bytes = await diskCache.get(hashKey('bytes', url, cachedMeta.etag));
+      if (bytes) {
+        const image = {
+          ...cachedMeta,
+          dataUri: toImageDataUri(cachedMeta.mimeType, bytes),
+          byteLength: bytes.length,
+          contentHash: hashBytes(bytes),
+        };
+        remember(url, image, cachedMeta.etag);
+        return image;
+      }
+      // The bytes were evicted; fetch again without revalidation.
+      clearTimeout(timer);
+      return fetchRemoteImage(url, options, false);
+    }
+    if (!response.ok) {
+      throw invalidImage(field, `The ${field} URL ${url} returned HTTP ${response.status}.`);
+    }
+    const contentType = response.headers.get('content-type')?.split(';')[0].trim() ?? '';
+    if (!contentType.startsWith('image/')) {
+      throw invalidImage(field, `The ${field} URL ${url} returned ${contentType || 'no content type'}, not an image.`);
+    }
+    const bytes = await readBody(response, url, maxBytes, field);
+    const image = await verifyImage(bytes, field);
+
+    const etag = response.headers.get('etag') ?? undefined;
+    if (etag) {
+      const meta: CachedImageMeta = {etag, mimeType: image.mimeType, width: image.width, height: image.height};
+      await diskCache.set(hashKey('bytes', url, etag), bytes);
+      await diskCache.set(`${urlKey}.json`, Buffer.from(JSON.stringify(meta)));
+    }
+    remember(url, image, etag);
+    return image;
+  } catch (error) {
+    // An abort while the body is streaming surfaces as a DOMException from `reader.read()`.
+    if (controller.signal.aborted && !(error instanceof AiFlowError)) {
+      throw fetchTimeout(field, url, timeoutMs);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function loadImage(uri: string, options: LoadImageOptions = {}): Promise<LoadedImage> {
+  const resolved: Required<LoadImageOptions> = {
+    field: options.field ?? 'image',
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    maxBytes: options.maxBytes ?? DEFAULT_MAX_BYTES,
+  };
+
+  if (isDataUri(uri)) {
+    try {
+      parseImageDataUri(uri);
+    } catch (error) {
+      throw invalidImage(resolved.field, error instanceof Error ? error.message : `Invalid ${resolved.field} data URI.`);
+    }
+    const bytes = decodeImageDataUri(uri);
+    if (bytes.length > resolved.maxBytes) {
+      throw invalidImage(resolved.field, `The ${resolved.field} is over the ${resolved.maxBytes}-byte limit.`);
+    }
+    return verifyImage(bytes, resolved.field);
+  }
+
+  if (!/^https?:\/\//i.test(uri)) {
+    throw invalidImage(resolved.field, `The ${resolved.field} must be a data URI or an HTTP/S URL.`);
+  }
+  if (!isCatalogueImageUrl(uri)) {
+    throw disallowedHost(resolved.field, uri);
+  }
+
+  const failure = recentFailures.get(uri);
+  if (failure && Date.now() - failure.failedAt < FAILURE_TTL_MS) {
+    throw failure.error;
+  }
+  const cached = memoryCache.get(uri);
+  if (cached && Date.now() - cached.loadedAt < MEMORY_TTL_MS) {
+    return cached.image;
+  }
+
+  try {
+    const image = await fetchRemoteImage(uri, resolved);
+    recentFailures.delete(uri);
+    return image;
+  } catch (error) {
+    if (error instanceof AiFlowError) {
+      rememberFailure(uri, error);
+    }
+    throw error;
+  }
+}
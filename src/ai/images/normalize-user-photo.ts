@@ -0,0 +1,64 @@
+/**
+ * @fileOverview Normalises user photos before they reach any model.
+ *
+ * Browser uploads arrive as whatever the user picked: up to 5 MB, any EXIF
+ * orientation, GIFs, and full camera metadata. Every flow runs them through
+ * `normaliseUserPhoto` first, which applies the EXIF orientation, strips all
+ * metadata, flattens transparency, downscales to a model-appropriate size,
+ * re-encodes as JPEG and rejects animated images. The content hash of the
+ * result is stable for identical photos, so downstream caches can key on it.
+ *
+ * - normaliseUserPhoto - Produces the canonical form of a user photo.
+ * - MAX_USER_PHOTO_BYTES - The largest user photo accepted, in bytes.
+ * - NormalisedPhoto - The canonical photo and its metadata.
+ */
+
+import {createHash} from 'crypto';
+import sharp from 'sharp';
+import {AiFlowError} from '@/ai/errors';
+import {decodeImageDataUri, toImageDataUri} from './data-uri';
+import {loadImage} from './load-image';
+
+export interface NormalisedPhoto {
+  dataUri: string;
+  width: number;
+  height: number;
+  /** SHA-256 of the normalised JPEG bytes, as hex. */
+  contentHash: string;
+  originalMimeType: string;
+}
+
+/** Longest side, in pixels, of a normalised photo. */
+export const NORMALISED_MAX_DIMENSION = 1536;
+const NORMALISED_JPEG_QUALITY = 90;
+export const MAX_USER_PHOTO_BYTES = 8 * 1024 * 1024;
+
+export async function normaliseUserPhoto(photoDataUri: string, field = 'userImage'): Promise<NormalisedPhoto> {
+  const loaded = await loadImage(photoDataUri, {field, maxBytes: MAX_USER_PHOTO_BYTES});
+  const bytes = decodeImageDataUri(loaded.dataUri);
+
+  const {pages = 1} = await sharp(bytes, {animated: true}).metadata();
+  if (pages > 1) {
+    throw new AiFlowError({
+      kind: 'invalid_input',
+      field,
+      message: 'Animated images are not supported. Please upload a still photo (JPG or PNG).',
+    });
+  }
+
+  const {data, info} = await sharp(bytes)
+    .rotate()
+    .resize(NORMALISED_MAX_DIMENSION, NORMALISED_MAX_DIMENSION, {fit: 'inside', withoutEnlargement: true})
+    .flatten({background: '#ffffff'})
+    .toColourspace('srgb')
+    .jpeg({quality: NORMALISED_JPEG_QUALITY, mozjpeg: true})
+    .toBuffer({resolveWithObject: true});
+
+  return {
+    dataUri: toImageDataUri('image/jpeg', data),
+    width: info.width,
+    height: info.height,
+    contentHash: createHash('sha256').update(data).digest('hex'),
+    originalMimeType: loaded.mimeType,
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * @fileOverview Automatic fixes for user photos that failed validation for a correctable reason.
+ *
+ * Validation attaches machine-readable fix actions to its result: brighten a
+ * dark photo, crop to the person, straighten a tilted camera, or upscale a
+ * small photo. `applyPhotoFixes` applies them with sharp, always in the same
+ * order (crop, straighten, brighten, upscale), so crop boxes, which are
+ * relative to the photo validation saw, apply before anything moves. Each
+ * type is applied at most once; repeats after the first are dropped.
+ *
+ * - applyPhotoFixes - Applies fix actions to an upright photo and returns the JPEG data URI and the fixes in the order applied.
+ * - PHOTO_FIX_TYPES - Every fix type, in the order fixes are applied.
+ * - PhotoFixActionSchema - Zod schema of one fix action.
+ * - PhotoFixAction - One fix action.
+ */
+
+import sharp from 'sharp';
+import {z} from 'genkit';
+import {decodeImageDataUri, toImageDataUri} from './data-uri';
+
+/** Largest gain a brighten fix may apply; darker photos need a reshoot. */
+export const MAX_BRIGHTEN_GAIN = 2.5;
+/** Largest factor an upscale fix may apply. */
+export const MAX_UPSCALE_FACTOR = 2;
+/** Largest tilt, in degrees, a straighten fix may correct. */
+export const MAX_STRAIGHTEN_DEGREES = 30;
+const FIXED_JPEG_QUALITY = 90;
+
+export const PhotoFixActionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('brighten'),
+    gain: z.number().min(1).max(MAX_BRIGHTEN_GAIN).describe('Multiplier applied to every channel.'),
+  }),
+  z.object({
+    type: z.literal('auto_crop'),
+    box: z
+      .object({left: z.number(), top: z.number(), width: z.number(), height: z.number()})
+      .describe('Area to keep, 0..1 on both axes of the upright photo.'),
+  }),
+  z.object({
+    type: z.literal('straighten'),
+    degrees: z
+      .number()
+      .min(-MAX_STRAIGHTEN_DEGREES)
+      .max(MAX_STRAIGHTEN_DEGREES)
+      .describe('Clockwise camera tilt to undo, in degrees.'),
+  }),
+  z.object({
+    type: z.literal('upscale'),
+    factor: z.number().min(1).max(MAX_UPSCALE_FACTOR),
+  }),
+]);
+
+export type PhotoFixAction = z.infer<typeof PhotoFixActionSchema>;
+
+export const PHOTO_FIX_TYPES: PhotoFixAction['type'][] = ['auto_crop', 'straighten', 'brighten', 'upscale'];
+
+/** Intermediate steps are kept lossless; only the final result is JPEG-encoded. */
+function toLossless(pipeline: sharp.Sharp): Promise<Buffer> {
+  return pipeline.png({compressionLevel: 1}).toBuffer();
+}
+
+async function straighten(image: Buffer, degrees: number): Promise<Buffer> {
+  const {width, height} = await sharp(image).metadata();
+  if (!width || !height) return image;
+  const rotated = await sharp(image).rotate(-degrees, {background: '#ffffff'}).toBuffer({resolveWithObject: true});
+
+  // Keep the largest centred rectangle of the original aspect ratio that has no rotated-in corners.
+  const radians = Math.abs(degrees) * (Math.PI / 180);
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const scale = Math.min(width / (width * cos + height * sin), height / (width * sin + height * cos));
+  const cropWidth = Math.floor(width * scale);
+  const cropHeight = Math.floor(height * scale);
+  return toLossless(
+    sharp(rotated.data).extract({
+      left: Math.floor((rotated.info.width - cropWidth) / 2),
+      top: Math.floor((rotated.info.height - cropHeight) / 2),
+      width: cropWidth,
+      height: cropHeight,
+    })
+  );
+}
+
+async function crop(image: Buffer, {box}: Extract<PhotoFixAction, {type: 'auto_crop'}>): Promise<Buffer> {
+  const {width, height} = await sharp(image).metadata();
+  if (!width || !height) return image;
+  const left = Math.min(width - 1, Math.max(0, Math.floor(box.left * width)));
+  const top = Math.min(height - 1, Math.max(0, Math.floor(box.top * height)));
+  return toLossless(
+    sharp(image).extract({
+      left,
+      top,
+      width: Math.max(1, Math.min(width - left, Math.round(box.width * width))),
+      height: Math.max(1, Math.min(height - top, Math.round(box.height * height))),
+    })
+  );
+}
+
+async function applyFix(image: Buffer, fix: PhotoFixAction): Promise<Buffer> {
+  switch (fix.type) {
+    case 'straighten':
+      return straighten(image, fix.degrees);
+    case 'auto_crop':
+      return crop(image, fix);
+    case 'brighten':
+      return toLossless(sharp(image).linear(fix.gain, 0));
+    case 'upscale': {
+      const {width} = await sharp(image).metadata();
+      return width ? toLossless(sharp(image).resize({width: Math.round(width * fix.factor), kernel: 'lanczos3'})) : image;
+    }
+  }
+}
+
+export async function applyPhotoFixes(
+  photoDataUri: string,
+  fixes: PhotoFixAction[]
+): Promise<{photoDataUri: string; applied: PhotoFixAction[]}> {
+  const unique = fixes.filter((fix, index) => fixes.findIndex(other => other.type === fix.type) === index);
+  const ordered = unique.sort((a, b) => PHOTO_FIX_TYPES.indexOf(a.type) - PHOTO_FIX_TYPES.indexOf(b.type));
+  let image = decodeImageDataUri(photoDataUri);
+  for (const fix of ordered) {
+    image = await applyFix(image, fix);
+  }
+  const fixed = await sharp(image).jpeg({quality: FIXED_JPEG_QUALITY, mozjpeg: true}).toBuffer();
+  return {photoDataUri: toImageDataUri('image/jpeg', fixed), applied: ordered};
+}
@@ -0,0 +1,88 @@
+/**
+ * @fileOverview Server-side manifest of the AI models offered for try-on.
+ *
+ * - TRY_ON_MODEL_IDS - Every model id the try-on flow accepts.
+ * - getModelManifest - Lists each model with its live availability, supported product types, latency and cost tier; the offline mock is only listed in mock mode or development.
+ * - ModelManifestEntry - One entry in the manifest, safe to pass to client components.
+ */
+
+import type {Product} from '@/lib/products';
+import {isMockMode, isMockModelEnabled, resolveTryOnProvider} from '@/ai/providers';
+import {isReplayMode} from '@/ai/record-replay';
+
+export const TRY_ON_MODEL_IDS = ['googleai/gemini-2.0-flash', 'imagen3', 'imagen4', 'mock'] as const;
+
+export type TryOnModelId = (typeof TRY_ON_MODEL_IDS)[number];
+
+export type CostTier = 'free' | 'low' | 'medium' | 'high';
+
+export interface ModelManifestEntry {
+  id: TryOnModelId;
+  name: string;
+  description: string;
+  available: boolean;
+  /** Why the model cannot be used right now; only set when `available` is false. */
+  unavailableReason?: string;
+  productTypes: Product['type'][];
+  /** Typical end-to-end generation time, in seconds. */
+  expectedLatencySeconds: number;
+  costTier: CostTier;
+}
+
+type ModelCatalogueEntry = Omit<ModelManifestEntry, 'available' | 'unavailableReason'>;
+
+const MODEL_CATALOGUE: ModelCatalogueEntry[] = [
+  {
+    id: 'googleai/gemini-2.0-flash',
+    name: 'Gemini Flash',
+    description: 'Fast and versatile model.',
+    productTypes: ['clothing', 'jewelry'],
+    expectedLatencySeconds: 15,
+    costTier: 'low',
+  },
+  {
+    id: 'imagen3',
+    name: 'Imagen 3',
+    description: 'Advanced image generation.',
+    productTypes: ['clothing'],
+    expectedLatencySeconds: 20,
+    costTier: 'medium',
+  },
+  {
+    id: 'imagen4',
+    name: 'Imagen 4',
+    description: 'State-of-the-art capabilities.',
+    productTypes: ['clothing'],
+    expectedLatencySeconds: 25,
+    costTier: 'high',
+  },
+  {
+    id: 'mock',
+    name: 'Offline Mock',
+    description: 'Local preview, no API key needed.',
+    productTypes: ['clothing', 'jewelry'],
+    expectedLatencySeconds: 1,
+    costTier: 'free',
+  },
+];
+
+function getUnavailableReason(model: TryOnModelId): string | undefined {
+  if (isMockMode()) {
+    return undefined;
+  }
+  const provider = resolveTryOnProvider(model);
+  if (!provider.capabilities.supportsTryOn) {
+    return 'Not yet supported for virtual try-on.';
+  }
+  if (provider.capabilities.requiresApiKey && !process.env.GEMINI_API_KEY && !process.env.GOOGLE_API_KEY && !isReplayMode()) {
+    return 'No API key is configured on the server.';
+  }
+  return undefined;
+}
+
+export function getModelManifest(): ModelManifestEntry[] {
+  return MODEL_CATALOGUE.filter(entry => entry.id !== 'mock' || isMockModelEnabled()).map(entry => {
+    const unavailableReason = getUnavailableReason(entry.id);
+    return {...entry, available: !unavailableReason, ...(unavailableReason ? {unavailableReason} : {})};
+  });
+}
@@ -0,0 +1,55 @@
+/**
+ * @fileOverview Structured, redacted server logger for the AI flows.
+ *
+ * Every entry is one JSON line with `severity`, `time`, `message`, the
+ * current `traceId` and `spanId` (see `tracing.ts`) and any fields passed in,
+ * so entries from one request can be found together; `severity` and
+ * `message` are the keys Google Cloud Logging reads. Messages and fields go
+ * through `redact`, so image payloads and API keys never reach the logs.
+ * LOG_LEVEL (`debug`, `info`, `warn` or `error`; default `info`) sets the
+ * lowest level written.
+ *
+ * - logger - Writes debug, info, warn and error entries.
+ * - LogFields - Structured fields attached to an entry.
+ */
+
+import {redact, redactString} from './redact';
+import {getTraceContext} from './tracing';
+
+export type LogFields = Record<string, unknown>;
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVEL_ORDER: Record<LogLevel, number> = {debug: 0, info: 1, warn: 2, error: 3};
+const MIN_LEVEL: LogLevel =
+  process.env.LOG_LEVEL && Object.hasOwn(LEVEL_ORDER, process.env.LOG_LEVEL) ? (process.env.LOG_LEVEL as LogLevel) : 'info';
+
+function write(level: LogLevel, message: string, fields?: LogFields): void {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[MIN_LEVEL]) {
+    return;
+  }
+  const trace = getTraceContext();
+  // Fields go first so a field named `message` or `severity` cannot replace the entry's own.
+  const entry = {
+    ...(fields ? (redact(fields) as LogFields) : {}),
+    severity: level.toUpperCase(),
+    time: new Date().toISOString(),
+    message: redactString(message),
+    ...(trace ? {traceId: trace.traceId, spanId: trace.spanId} : {}),
+  };
+  const line = JSON.stringify(entry);
+  if (level === 'error') {
+    console.error(line);
+  } else if (level === 'warn') {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields),
+};
@@ -0,0 +1,88 @@
+/**
+ * @fileOverview Strips image payloads and credentials from values before they are logged or traced.
+ *
+ * Data URIs become a short `[image/png data URI, ~12345 bytes]` marker, other
+ * long base64 runs become `[base64, N chars]`, and Google API keys, `key=`
+ * query parameters and bearer tokens are masked wherever they appear in a
+ * string. Object properties whose name marks a secret (`apiKey`,
+ * `authorization`, `password`, ...) are masked whatever their value. Errors
+ * are reduced to their name, message, stack and, for `AiFlowError`, the typed
+ * detail, all redacted.
+ *
+ * - redact - Returns a redacted, JSON-safe copy of any value.
+ * - redactString - Redacts one string.
+ */
+
+import {AiFlowError} from '@/ai/errors';
+
+const DATA_URI_PATTERN = /data:([\w.+-]+\/[\w.+-]+)?(?:;[\w-]+=[\w.-]+)*;base64,([A-Za-z0-9+/]*={0,2})/g;
+const LONG_BASE64_PATTERN = /[A-Za-z0-9+/]{256,}={0,2}/g;
+const GOOGLE_API_KEY_PATTERN = /AIza[0-9A-Za-z_-]{35}/g;
+const KEY_PARAM_PATTERN = /([?&](?:key|api_?key|access_token|token)=)[^&\s"']+/gi;
+const BEARER_PATTERN = /(Bearer\s+)[A-Za-z0-9._~+/-]+=*/g;
+/** Property names whose values are always secret. Token counts (`inputTokens`) deliberately do not match. */
+const SECRET_FIELD_PATTERN = /api[-_]?key|^authorization$|password|secret|^(?:access[-_]?|refresh[-_]?|id[-_]?)?token$|^(?:set-)?cookie$/i;
+const MAX_DEPTH = 8;
+
+export function redactString(value: string): string {
+  return value
+    .replace(DATA_URI_PATTERN, (_, mimeType: string | undefined, data: string) => {
+      const bytes = Math.floor((data.length * 3) / 4);
+      return `[${mimeType ?? 'unknown'} data URI, ~${bytes} bytes]`;
+    })
+    .replace(LONG_BASE64_PATTERN, match => `[base64, ${match.length} chars]`)
+    .replace(GOOGLE_API_KEY_PATTERN, '[redacted API key]')
+    .replace(KEY_PARAM_PATTERN, '$1[redacted]')
+    .replace(BEARER_PATTERN, '$1[redacted]');
+}
+
+/** `ancestors` holds the objects on the path to `value`, to catch cycles without flagging shared references. */
+function redactValue(value: unknown, depth: number, ancestors: WeakSet<object>): unknown {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'bigint' ? value.toString() : value;
+  }
+  if (ancestors.has(value)) {
+    return '[circular]';
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[truncated]';
+  }
+  if (value instanceof Uint8Array) {
+    return `[${value.byteLength} bytes]`;
+  }
+  ancestors.add(value);
+  try {
+    return redactObject(value, depth, ancestors);
+  } finally {
+    ancestors.delete(value);
+  }
+}
+
+function redactObject(value: object, depth: number, ancestors: WeakSet<object>): unknown {
+  if (value instanceof Error) {
+    const cause = (value as {cause?: unknown}).cause;
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      ...(value instanceof AiFlowError ? {detail: redactValue(value.detail, depth + 1, ancestors)} : {}),
+      ...(value.stack ? {stack: redactString(value.stack)} : {}),
+      ...(cause !== undefined ? {cause: redactValue(cause, depth + 1, ancestors)} : {}),
+    };
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, depth + 1, ancestors));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_FIELD_PATTERN.test(key) && item !== undefined && item !== null ? '[redacted]' : redactValue(item, depth + 1, ancestors),
+    ])
+  );
+}
+
+export function redact(value: unknown): unknown {
+  return redactValue(value, 0, new WeakSet());
+}
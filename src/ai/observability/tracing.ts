@@ -0,0 +1,65 @@
+/**
+ * @fileOverview Per-request trace IDs and OpenTelemetry spans for the AI flows.
+ *
+ * Each server action runs inside `traceAiAction`, which opens a span and an
+ * async-local trace context. Everything awaited underneath, down to each
+ * model call, shares the trace ID, so the logger can stamp it on every line.
+ * When an OpenTelemetry SDK is registered (Genkit registers one for its
+ * developer UI; production can register any exporter), the trace ID is the
+ * OpenTelemetry one and the spans are exported with it; otherwise a random ID
+ * is used and the spans are no-ops.
+ *
+ * - traceAiAction - Runs a server action in a root span, marking the span failed when it returns an error.
+ * - withSpan - Runs a function in a child span, recording exceptions.
+ * - getTraceContext - The current trace and span IDs, if inside a traced request.
+ */
+
+import {AsyncLocalStorage} from 'async_hooks';
+import {randomBytes} from 'crypto';
+import {isSpanContextValid, SpanStatusCode, trace, type Attributes, type Span} from '@opentelemetry/api';
+import type {AiResult} from '@/ai/errors';
+import {redactString} from './redact';
+
+interface TraceContext {
+  traceId: string;
+  spanId?: string;
+}
+
+const tracer = trace.getTracer('vito-try-on');
+const traceStorage = new AsyncLocalStorage<TraceContext>();
+
+export function getTraceContext(): TraceContext | undefined {
+  return traceStorage.getStore();
+}
+
+export function withSpan<T>(name: string, attributes: Attributes, fn: (span: Span) => Promise<T>): Promise<T> {
+  return tracer.startActiveSpan(name, {attributes}, async span => {
+    const spanContext = span.spanContext();
+    const otelContext = isSpanContextValid(spanContext) ? spanContext : undefined;
+    const context: TraceContext = {
+      traceId: otelContext?.traceId ?? getTraceContext()?.traceId ?? randomBytes(16).toString('hex'),
+      spanId: otelContext?.spanId,
+    };
+    try {
+      return await traceStorage.run(context, () => fn(span));
+    } catch (error) {
+      const message = redactString(error instanceof Error ? error.message : String(error));
+      span.recordException({name: error instanceof Error ? error.name : 'Error', message});
+      span.setStatus({code: SpanStatusCode.ERROR, message});
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+export function traceAiAction<T>(name: string, attributes: Attributes, action: () => Promise<AiResult<T>>): Promise<AiResult<T>> {
+  return withSpan(name, attributes, async span => {
+    const result = await action();
+    if (!result.ok) {
+      span.setAttribute('ai.error.kind', result.error.kind);
+      span.setStatus({code: SpanStatusCode.ERROR, message: redactString(result.error.message)});
+    }
+    return result;
+  });
+}
@@ -0,0 +1,135 @@
+/**
+ * @fileOverview Produces clean, background-removed cutouts of product images.
+ *
+ * Catalog photos often show the item on a model, mannequin or in a scene. On
+ * first use, the product image is sent to the Gemini image model with an
+ * isolation prompt ("the item alone on plain white"), then the uniform
+ * background is flood-filled away to a transparent PNG. Cutouts are cached on
+ * disk keyed by the source image, so each product is isolated once.
+ *
+ * Isolation is a paid model call: callers decide per request whether it is
+ * worth making (the try-on flow skips it for offline providers such as the
+ * mock). It is best-effort: if the model or background removal fails, the
+ * original image is returned and the try-on proceeds with it. An item image
+ * that cannot be loaded at all is reported as an error.
+ *
+ * - getGarmentCutout - Returns a cutout data URI for an item image, using the cache when possible.
+ * - removeUniformBackground - Makes the border-connected background of an image transparent.
+ */
+
+import sharp from 'sharp';
+import {ai} from '@/ai/genkit';
+import {AiFlowError} from '@/ai/errors';
+import {createDiskCache, hashKey} from '@/ai/cache/disk-cache';
+import {decodeImageDataUri, toImageDataUri} from '@/ai/images/data-uri';
+import {loadImage} from '@/ai/images/load-image';
+import {getRegionPromptSpec} from '@/ai/prompts/regions';
+import {recordReplay} from '@/ai/record-replay';
+import {meterModelUsage} from '@/ai/usage/metering';
+import type {GarmentRegion} from '@/lib/products';
+import {logger} from '@/ai/observability/logger';
+
+/** Bump when the isolation prompt or background removal changes, to invalidate old cutouts. */
+const CUTOUT_VERSION = 'cutout-v1';
+const ISOLATION_MODEL = 'googleai/gemini-2.0-flash-preview-image-generation';
+/** Colour distance (0-441) within which a pixel counts as background. */
+const BACKGROUND_TOLERANCE = 40;
+
+const cutoutCache = createDiskCache('garment-cutouts');
+const inFlight = new Map<string, Promise<string>>();
+
+async function isolateWithModel(itemImage: string, garmentRegion: GarmentRegion): Promise<string> {
+  const {itemShort} = getRegionPromptSpec(garmentRegion);
+  const {media} = await ai.generate({
+    model: ISOLATION_MODEL,
+    prompt: [
+      {media: {url: itemImage}},
+      {
+        text: `Extract the ${itemShort} from this product photo. Output only the ${itemShort}, centred and fully visible, on a plain pure-white (#FFFFFF) background. Remove every person, body part, mannequin, hanger, stand, tag and scene element. Keep the ${itemShort}'s exact colour, pattern, texture, logos and shape. Do not add shadows or reflections.`,
+      },
+    ],
+    config: {
+      responseModalities: ['TEXT', 'IMAGE'],
+      temperature: 0,
+    },
+    use: [recordReplay('garment-cutout', ISOLATION_MODEL), meterModelUsage('garment-cutout', ISOLATION_MODEL)],
+  });
+  if (!media?.url) {
+    throw new Error(`${ISOLATION_MODEL} did not return an isolated item image.`);
+  }
+  return media.url;
+}
+
+export async function removeUniformBackground(image: Buffer): Promise<Buffer> {
+  const {data, info} = await sharp(image).rotate().ensureAlpha().raw().toBuffer({resolveWithObject: true});
+  const {width, height} = info;
+  const pixel = (index: number) => [data[index * 4], data[index * 4 + 1], data[index * 4 + 2]];
+
+  // The background colour is taken as the average of the four corners.
+  const corners = [0, width - 1, (height - 1) * width, height * width - 1].map(pixel);
+  const background = [0, 1, 2].map(channel => corners.reduce((sum, c) => sum + c[channel], 0) / corners.length);
+  const isBackground = (index: number) => {
+    const [r, g, b] = pixel(index);
+    return Math.hypot(r - background[0], g - background[1], b - background[2]) <= BACKGROUND_TOLERANCE;
+  };
+
+  // Flood fill from every border pixel, so background-coloured areas inside the item are kept.
+  const visited = new Uint8Array(width * height);
+  const stack: number[] = [];
+  for (let x = 0; x < width; x++) {
+    stack.push(x, (height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    stack.push(y * width, y * width + width - 1);
+  }
+  while (stack.length > 0) {
+    const index = stack.pop()!;
+    if (visited[index] || !isBackground(index)) continue;
+    visited[index] = 1;
+    data[index * 4 + 3] = 0;
+    const x = index % width;
+    if (x > 0) stack.push(index - 1);
+    if (x < width - 1) stack.push(index + 1);
+    if (index >= width) stack.push(index - width);
+    if (index < (height - 1) * width) stack.push(index + width);
+  }
+
+  return sharp(data, {raw: {width, height, channels: 4}}).trim().png().toBuffer();
+}
+
+async function buildCutout(itemImage: string, garmentRegion: GarmentRegion): Promise<string> {
+  const {dataUri: source} = await loadImage(itemImage, {field: 'itemImage'});
+  const isolated = await isolateWithModel(source, garmentRegion);
+  const cutout = await removeUniformBackground(decodeImageDataUri(isolated));
+  return toImageDataUri('image/png', cutout);
+}
+
+export async function getGarmentCutout(itemImage: string, garmentRegion: GarmentRegion): Promise<string> {
+  const key = hashKey(CUTOUT_VERSION, garmentRegion, itemImage);
+  const cached = await cutoutCache.get(key);
+  if (cached) {
+    return toImageDataUri('image/png', cached);
+  }
+
+  let pending = inFlight.get(key);
+  if (!pending) {
+    pending = buildCutout(itemImage, garmentRegion)
+      .then(async cutout => {
+        await cutoutCache.set(key, decodeImageDataUri(cutout));
+        return cutout;
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
+  }
+
+  try {
+    return await pending;
+  } catch (error) {
+    if (error instanceof AiFlowError) {
+      // The item image itself could not be loaded; the providers would fail on it too.
+      throw error;
+    }
+    logger.warn('Garment isolation failed; falling back to the original item image.', {error});
+    return itemImage;
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * @fileOverview Weighted A/B assignment of try-on prompt versions.
+ *
+ * Assignment is deterministic: the same assignment key (e.g. a hash of the
+ * user photo) always lands in the same variant, so retries and cache hits
+ * stay consistent. `TRY_ON_PROMPT_VERSION` pins every request to one
+ * template, which is how offline evals compare variants side by side.
+ *
+ * - assignTryOnPrompt - Picks the prompt template for a request.
+ * - PromptAssignment - The chosen template plus the experiment it came from.
+ */
+
+import {createHash} from 'crypto';
+import {getPromptTemplate, type PromptRef} from './registry';
+
+export interface PromptExperiment {
+  id: string;
+  variants: {ref: PromptRef; weight: number}[];
+}
+
+export interface PromptAssignment {
+  promptVersion: PromptRef;
+  /** The experiment that chose the version; undefined when the version was pinned. */
+  experimentId?: string;
+}
+
+export const TRY_ON_PROMPT_EXPERIMENT: PromptExperiment = {
+  id: 'try-on-prompt-v1-vs-v2',
+  variants: [
+    {ref: 'vito-try-on@v1', weight: 0.5},
+    {ref: 'vito-try-on@v2', weight: 0.5},
+  ],
+};
+
+/** Maps a key to a stable point in [0, 1). */
+function bucketFor(experimentId: string, key: string): number {
+  const digest = createHash('sha256').update(`${experimentId}:${key}`).digest();
+  return digest.readUInt32BE(0) / 0x100000000;
+}
+
+export function assignTryOnPrompt(
+  assignmentKey: string,
+  options: {pinnedVersion?: string; experiment?: PromptExperiment} = {}
+): PromptAssignment {
+  const pinned = options.pinnedVersion ?? process.env.TRY_ON_PROMPT_VERSION;
+  if (pinned) {
+    return {promptVersion: getPromptTemplate(pinned).ref};
+  }
+
+  const experiment = options.experiment ?? TRY_ON_PROMPT_EXPERIMENT;
+  const totalWeight = experiment.variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let remaining = bucketFor(experiment.id, assignmentKey) * totalWeight;
+  for (const variant of experiment.variants) {
+    remaining -= variant.weight;
+    if (remaining < 0) {
+      return {promptVersion: variant.ref, experimentId: experiment.id};
+    }
+  }
+  const last = experiment.variants[experiment.variants.length - 1];
+  return {promptVersion: last.ref, experimentId: experiment.id};
+}
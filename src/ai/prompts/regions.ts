@@ -0,0 +1,113 @@
+/**
+ * @fileOverview Per-region wording shared by every version of the try-on prompt.
+ *
+ * - getRegionPromptSpec - The region-specific instructions for a garment region.
+ * - getSegmentInstruction - How to isolate the item from its product photo.
+ */
+
+import type {GarmentRegion} from '@/lib/products';
+
+export interface RegionPromptSpec {
+  /** What Input 2 shows, e.g. "one garment" or "one pair of earrings". */
+  itemNoun: string;
+  /** Short name for the item used in instructions, e.g. "garment" or "earrings". */
+  itemShort: string;
+  /** The only area of Input 1 allowed to change. */
+  editableArea: string;
+  /** Step 2: what to remove from the user image. */
+  removeInstruction: string;
+  /** Step 3: where and how to fit the re-rendered item. */
+  fitInstruction: string;
+  /** What the model must not substitute the item with. */
+  substituteNoun: string;
+  /** One-line summary of step 2 for the workflow recap. */
+  workflowRemove: string;
+  /** What the user photo must show for this region; checked by image validation. */
+  requiredCoverage: string;
+}
+
+const CLOTHING_SEGMENT_INSTRUCTION = `Remove all hangers, tags, mannequin parts, background or models.`;
+const JEWELRY_SEGMENT_INSTRUCTION = `Remove all display stands, boxes, cards, tags, background, skin or models.`;
+
+const REGION_PROMPT_SPECS: Record<GarmentRegion, RegionPromptSpec> = {
+  upper_body: {
+    itemNoun: 'one top garment only (shirt, t-shirt, blouse, hoodie or jacket), possibly on a hanger, mannequin or model',
+    itemShort: 'garment',
+    editableArea: 'the upper-body clothing region',
+    removeInstruction: 'Erase the original shirt (or top) from the user image—replace it with transparent space where the new garment will go. Leave trousers, skirts and accessories untouched.',
+    fitInstruction: 'Warp and scale this re-rendered garment onto the user’s torso, shoulders and arms—following the exact pose in Input 1.',
+    substituteNoun: 'a different top',
+    workflowRemove: 'Erase old top; segment product garment.',
+    requiredCoverage: 'the whole torso from shoulders to waist, with both arms visible',
+  },
+  lower_body: {
+    itemNoun: 'one bottom garment only (trousers, chinos, jeans, shorts or skirt), possibly on a hanger, mannequin or model',
+    itemShort: 'garment',
+    editableArea: 'the lower-body clothing region from waist to ankles',
+    removeInstruction: 'Erase the original trousers, jeans, shorts or skirt from the user image—replace them with transparent space where the new garment will go. Leave the top, shoes and accessories untouched; where the top is tucked in or overlaps the waistband, keep its hem exactly as it is.',
+    fitInstruction: 'Warp and scale this re-rendered garment onto the user’s waist, hips and legs—following the exact stance and leg position in Input 1, with the waistband sitting at the rise shown in Input 2.',
+    substituteNoun: 'different trousers or a different skirt',
+    workflowRemove: 'Erase old bottoms; segment product garment.',
+    requiredCoverage: 'the full lower body from the waist down to the ankles',
+  },
+  full_body: {
+    itemNoun: 'one full-length garment only (dress, jumpsuit or overall), possibly on a hanger, mannequin or model',
+    itemShort: 'garment',
+    editableArea: 'the clothing region from shoulders to hem',
+    removeInstruction: 'Erase the original top and bottoms from the user image between the shoulders and where the new hem will fall—replace them with transparent space where the new garment will go. Leave shoes and accessories untouched.',
+    fitInstruction: 'Warp and scale this re-rendered garment onto the user’s shoulders, torso, hips and legs—following the exact pose in Input 1 and keeping the hem length, neckline and strap style from Input 2. Reveal legs and arms only where the garment genuinely leaves them uncovered.',
+    substituteNoun: 'a different dress or outfit',
+    workflowRemove: 'Erase old outfit; segment product garment.',
+    requiredCoverage: 'the whole body from the shoulders down to the feet',
+  },
+  ears: {
+    itemNoun: 'one pair of earrings only, possibly on a display card, stand or model',
+    itemShort: 'earrings',
+    editableArea: 'the earlobes and the small area the earrings hang over',
+    removeInstruction: 'Do not erase any clothing. If the user already wears earrings, remove only those; otherwise leave the ears exactly as they are. If hair covers an ear, do not move the hair—show only the part of the earring that would be visible.',
+    fitInstruction: 'Attach one earring to each visible earlobe, scaled to the user’s ear size and head distance, hanging naturally with gravity and mirrored left/right as in Input 2.',
+    substituteNoun: 'different earrings',
+    workflowRemove: 'Remove only existing earrings; segment product earrings.',
+    requiredCoverage: 'at least one ear, with the earlobe not covered by hair, a hat or headphones',
+  },
+  neck: {
+    itemNoun: 'one necklace or pendant only, possibly on a display bust, card or model',
+    itemShort: 'necklace',
+    editableArea: 'the neck and upper chest where the necklace rests',
+    removeInstruction: 'Do not erase any clothing. If the user already wears a necklace, remove only that necklace. Keep the collar and neckline of the user’s clothing exactly as they are.',
+    fitInstruction: 'Drape the necklace around the user’s neck, following the neck angle and collarbones in Input 1, with the chain length and pendant drop shown in Input 2. Let it pass over or under the neckline of the clothing as a real necklace would.',
+    substituteNoun: 'a different necklace',
+    workflowRemove: 'Remove only an existing necklace; segment product necklace.',
+    requiredCoverage: 'the neck and upper chest, not covered by a scarf, a high collar or hair',
+  },
+  wrist: {
+    itemNoun: 'one bracelet or watch only, possibly on a display stand, cushion or model',
+    itemShort: 'bracelet',
+    editableArea: 'the wrist the bracelet is worn on',
+    removeInstruction: 'Do not erase any clothing. If the user already wears a bracelet or watch on the chosen wrist, remove only that item. Prefer the most visible wrist; if a sleeve covers it, keep the sleeve and show only the visible part of the bracelet.',
+    fitInstruction: 'Wrap the bracelet around the chosen wrist, scaled to the wrist’s width and perspective in Input 1, with links or clasps oriented as a real bracelet would sit.',
+    substituteNoun: 'a different bracelet',
+    workflowRemove: 'Remove only an existing bracelet; segment product bracelet.',
+    requiredCoverage: 'at least one wrist, not covered by a sleeve, a glove or another watch',
+  },
+  finger: {
+    itemNoun: 'one ring only, possibly in a box, on a stand or on a model',
+    itemShort: 'ring',
+    editableArea: 'the finger the ring is worn on',
+    removeInstruction: 'Do not erase any clothing. If the user already wears a ring on the chosen finger, remove only that ring. Prefer the ring finger of the most visible hand.',
+    fitInstruction: 'Place the ring around the chosen finger between the knuckles, scaled to the finger’s width and perspective in Input 1, occluded naturally by neighbouring fingers.',
+    substituteNoun: 'a different ring',
+    workflowRemove: 'Remove only an existing ring; segment product ring.',
+    requiredCoverage: 'at least one hand with its fingers separated and clearly visible',
+  },
+};
+
+const JEWELRY_REGIONS: GarmentRegion[] = ['ears', 'neck', 'wrist', 'finger'];
+
+export function getRegionPromptSpec(region: GarmentRegion): RegionPromptSpec {
+  return REGION_PROMPT_SPECS[region];
+}
+
+export function getSegmentInstruction(region: GarmentRegion): string {
+  return JEWELRY_REGIONS.includes(region) ? JEWELRY_SEGMENT_INSTRUCTION : CLOTHING_SEGMENT_INSTRUCTION;
+}
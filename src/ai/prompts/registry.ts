@@ -0,0 +1,55 @@
+/**
+ * @fileOverview Versioned registry of try-on prompt templates.
+ *
+ * Every template is identified by `<id>@<version>` (e.g. `vito-try-on@v2`),
+ * and that reference is returned with each generation so a result can always
+ * be traced back to the prompt that produced it.
+ *
+ * - getPromptTemplate - Looks up a template by its versioned reference.
+ * - listPromptTemplates - Returns every registered template.
+ * - PromptRef - A `<id>@<version>` template reference.
+ */
+
+import {AiFlowError} from '@/ai/errors';
+import type {GarmentRegion} from '@/lib/products';
+import {buildTryOnPromptV1} from './try-on-v1';
+import {buildTryOnPromptV2} from './try-on-v2';
+
+export type PromptRef = `${string}@${string}`;
+
+export interface PromptTemplate {
+  ref: PromptRef;
+  id: string;
+  version: string;
+  description: string;
+  render(region: GarmentRegion): string;
+}
+
+const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    ref: 'vito-try-on@v1',
+    id: 'vito-try-on',
+    version: 'v1',
+    description: 'Original long-form VITO compositor brief.',
+    render: buildTryOnPromptV1,
+  },
+  {
+    ref: 'vito-try-on@v2',
+    id: 'vito-try-on',
+    version: 'v2',
+    description: 'Checklist-style brief with identity preservation first.',
+    render: buildTryOnPromptV2,
+  },
+];
+
+export function listPromptTemplates(): PromptTemplate[] {
+  return PROMPT_TEMPLATES;
+}
+
+export function getPromptTemplate(ref: string): PromptTemplate {
+  const template = PROMPT_TEMPLATES.find(t => t.ref === ref);
+  if (!template) {
+    throw new AiFlowError({kind: 'invalid_input', field: 'promptVersion', message: `Unknown prompt template "${ref}".`});
+  }
+  return template;
+}
@@ -0,0 +1,60 @@
+/**
+ * @fileOverview Try-on provider backed by Gemini image generation through Genkit.
+ */
+
+import {ai} from '@/ai/genkit';
+import {AiFlowError} from '@/ai/errors';
+import {loadImage} from '@/ai/images/load-image';
+import {recordReplay} from '@/ai/record-replay';
+import {meterModelUsage} from '@/ai/usage/metering';
+import {logger} from '@/ai/observability/logger';
+import type {TryOnProvider} from './types';
+
+export const genkitGeminiProvider: TryOnProvider = {
+  id: 'genkit-gemini',
+  displayName: 'Gemini (Genkit)',
+  models: {
+    'googleai/gemini-2.0-flash': 'googleai/gemini-2.0-flash-preview-image-generation',
+  },
+  capabilities: {
+    acceptsRemoteImages: true,
+    requiresApiKey: true,
+    offline: false,
+    supportsTryOn: true,
+  },
+  async generate(request) {
+    const modelId = genkitGeminiProvider.models[request.model];
+    logger.info('Attempting AI try-on with Genkit (googleAI plugin).', {model: modelId, temperature: request.temperature});
+    const [userImage, itemImage] = await Promise.all([
+      loadImage(request.userImage, {field: 'userImage'}),
+      loadImage(request.itemImage, {field: 'itemImage'}),
+    ]);
+    request.signal?.throwIfAborted();
+    const {media, text} = await ai.generate({
+      model: modelId,
+      prompt: [
+        {media: {url: userImage.dataUri}},
+        {media: {url: itemImage.dataUri}},
+        {text: request.prompt},
+      ],
+      config: {
+        responseModalities: ['TEXT', 'IMAGE'],
+        temperature: request.temperature,
+      },
+      // No chunk callback: the Gemini SDK drops image parts when it assembles a streamed response,
+      // so a streamed call never returns its image. The commentary is forwarded once the call is done.
+      use: [recordReplay('try-on', modelId), meterModelUsage('try-on', modelId)],
+    });
+    if (text) {
+      request.onCommentary?.(text);
+    }
+    if (!media || !media.url) {
+      logger.error('Genkit ai.generate (Gemini) did not return image data.', {model: modelId, media});
+      throw new AiFlowError({
+        kind: 'no_image_returned',
+        message: `AI.generate with model ${modelId} did not return image data in the expected format.`,
+      });
+    }
+    return {generatedImage: media.url};
+  },
+};
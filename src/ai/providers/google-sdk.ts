@@ -0,0 +1,94 @@
+/**
+ * @fileOverview Try-on provider that calls the raw `@google/generative-ai` SDK.
+ *
+ * The SDK needs inline image data, so both images go through the shared
+ * image loader before the call. The Imagen models it serves do not support
+ * `generateContent` for multimodal try-on, so they are registered with
+ * `supportsTryOn: false` until a working upstream method is available.
+ */
+
+import {GoogleGenerativeAI, HarmBlockThreshold, HarmCategory, type Part} from '@google/generative-ai';
+import {parseImageDataUri} from '@/ai/images/data-uri';
+import {loadImage} from '@/ai/images/load-image';
+import {AiFlowError} from '@/ai/errors';
+import {assertAiBudgetAvailable} from '@/ai/usage/budget';
+import {traceModelCall} from '@/ai/usage/metering';
+import {logger} from '@/ai/observability/logger';
+import type {TryOnProvider} from './types';
+
+export const googleSdkProvider: TryOnProvider = {
+  id: 'google-sdk',
+  displayName: 'Google Generative AI SDK',
+  models: {
+    imagen3: 'imagen-3.0-generate-002',
+    imagen4: 'imagen-4.0-generate-preview-06-06',
+  },
+  capabilities: {
+    acceptsRemoteImages: true,
+    requiresApiKey: true,
+    offline: false,
+    supportsTryOn: false,
+  },
+  async generate(request) {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error('API key for the Google Generative AI SDK is not configured.');
+    }
+    const modelName = googleSdkProvider.models[request.model];
+
+    const [userImage, itemImage] = await Promise.all([
+      loadImage(request.userImage, {field: 'userImage'}),
+      loadImage(request.itemImage, {field: 'itemImage'}),
+    ]);
+
+    const parts: Part[] = [
+      {inlineData: parseImageDataUri(userImage.dataUri)},
+      {inlineData: parseImageDataUri(itemImage.dataUri)},
+      {text: request.prompt},
+    ];
+
+    const genAI = new GoogleGenerativeAI(apiKey);
+    const model = genAI.getGenerativeModel({
+      model: modelName,
+      safetySettings: [
+        {category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE},
+        {category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE},
+        {category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE},
+        {category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE},
+      ],
+      generationConfig: {temperature: request.temperature},
+    });
+
+    logger.info('Attempting AI try-on with the @google/generative-ai SDK.', {model: modelName});
+    await assertAiBudgetAvailable();
+    request.signal?.throwIfAborted();
+    const result = await traceModelCall(
+      'try-on',
+      modelName,
+      () => model.generateContent({contents: [{role: 'user', parts}]}),
+      ({response}, latencyMs) => ({
+        callSite: 'try-on',
+        model: modelName,
+        latencyMs,
+        inputTokens: response.usageMetadata?.promptTokenCount ?? 0,
+        outputTokens: response.usageMetadata?.candidatesTokenCount ?? 0,
+        inputImages: 2,
+        outputImages: (response.candidates ?? [])
+          .flatMap(candidate => candidate.content?.parts ?? [])
+          .filter(part => part.inlineData?.mimeType.startsWith('image/')).length,
+      })
+    );
+
+    for (const candidate of result.response.candidates ?? []) {
+      for (const part of candidate.content?.parts ?? []) {
+        if (part.inlineData && part.inlineData.mimeType.startsWith('image/')) {
+          return {generatedImage: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`};
+        }
+      }
+    }
+    throw new AiFlowError({
+      kind: 'no_image_returned',
+      message: `${modelName} (generateContent) did not return image data in the expected format.`,
+    });
+  },
+};
@@ -0,0 +1,17 @@
+/**
+ * @fileOverview Registers the built-in try-on providers and re-exports the registry API.
+ */
+
+import {genkitGeminiProvider} from './genkit-gemini';
+import {googleSdkProvider} from './google-sdk';
+import {mockProvider} from './mock';
+import {listTryOnProviders, registerTryOnProvider} from './registry';
+
+if (listTryOnProviders().length === 0) {
+  registerTryOnProvider(genkitGeminiProvider);
+  registerTryOnProvider(googleSdkProvider);
+  registerTryOnProvider(mockProvider);
+}
+
+export {isMockMode, isMockModelEnabled, listTryOnProviders, registerTryOnProvider, resolveTryOnProvider} from './registry';
+export type {TryOnProvider, TryOnProviderCapabilities, TryOnProviderRequest, TryOnProviderResult} from './types';
@@ -0,0 +1,76 @@
+/**
+ * @fileOverview Deterministic, offline try-on provider.
+ *
+ * Composites the item image onto the estimated garment region of the user image with sharp.
+ * It needs no API key and no network: remote item URLs are never fetched and
+ * are stood in for by a flat swatch whose colour is derived from the URL, so
+ * the same inputs always produce the same output.
+ */
+
+import {createHash} from 'crypto';
+import sharp from 'sharp';
+import {decodeImageDataUri, isDataUri, toImageDataUri} from '@/ai/images/data-uri';
+import {GARMENT_REGION_BOXES} from '@/ai/garment-regions';
+import {MOCK_PROVIDER_ID} from './registry';
+import type {TryOnProvider} from './types';
+
+/** Horizontal nudge per candidate index, so several mock candidates are distinguishable. */
+const CANDIDATE_OFFSET_RATIO = 0.02;
+
+function swatchColourFor(url: string): {r: number; g: number; b: number} {
+  const digest = createHash('sha256').update(url).digest();
+  return {r: digest[0], g: digest[1], b: digest[2]};
+}
+
+async function renderItem(itemImage: string, width: number, height: number): Promise<Buffer> {
+  if (isDataUri(itemImage)) {
+    return sharp(decodeImageDataUri(itemImage))
+      .resize(width, height, {fit: 'inside'})
+      .png()
+      .toBuffer();
+  }
+  return sharp({
+    create: {width, height, channels: 4, background: {...swatchColourFor(itemImage), alpha: 0.85}},
+  })
+    .png()
+    .toBuffer();
+}
+
+export const mockProvider: TryOnProvider = {
+  id: MOCK_PROVIDER_ID,
+  displayName: 'Offline Mock',
+  models: {
+    mock: 'local-composite',
+  },
+  capabilities: {
+    acceptsRemoteImages: true,
+    requiresApiKey: false,
+    offline: true,
+    supportsTryOn: true,
+  },
+  async generate(request) {
+    const canvas = sharp(decodeImageDataUri(request.userImage)).rotate();
+    const {width = 512, height = 512} = await canvas.metadata();
+
+    const box = GARMENT_REGION_BOXES[request.garmentRegion];
+    const itemWidth = Math.max(1, Math.round(width * box.width));
+    const itemHeight = Math.max(1, Math.round(height * box.height));
+    const item = await renderItem(request.itemImage, itemWidth, itemHeight);
+    const {width: renderedWidth = itemWidth} = await sharp(item).metadata();
+
+    const output = await canvas
+      .composite([
+        {
+          input: item,
+          left: Math.min(
+            width - renderedWidth,
+            Math.round(width * (box.left + CANDIDATE_OFFSET_RATIO * request.candidateIndex) + (itemWidth - renderedWidth) / 2)
+          ),
+          top: Math.round(height * box.top),
+        },
+      ])
+      .png()
+      .toBuffer();
+    return {generatedImage: toImageDataUri('image/png', output)};
+  },
+};
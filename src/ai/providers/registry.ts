@@ -0,0 +1,62 @@
+/**
+ * @fileOverview In-memory registry of try-on providers.
+ *
+ * - registerTryOnProvider - Adds a provider to the registry.
+ * - listTryOnProviders - Returns every registered provider.
+ * - resolveTryOnProvider - Finds the provider that serves a given model id.
+ * - isMockMode - Whether AI_PROVIDER_MODE=mock forces every call through the mock provider.
+ * - isMockModelEnabled - Whether the mock model may be picked directly: in mock mode or in development only.
+ */
+
+import {AiFlowError} from '@/ai/errors';
+import type {TryOnProvider} from './types';
+
+const providers = new Map<string, TryOnProvider>();
+
+export const MOCK_PROVIDER_ID = 'mock';
+
+export function registerTryOnProvider(provider: TryOnProvider): void {
+  if (providers.has(provider.id)) {
+    throw new Error(`A try-on provider with id "${provider.id}" is already registered.`);
+  }
+  providers.set(provider.id, provider);
+}
+
+export function listTryOnProviders(): TryOnProvider[] {
+  return Array.from(providers.values());
+}
+
+export function isMockMode(): boolean {
+  return process.env.AI_PROVIDER_MODE === 'mock';
+}
+
+/** The mock returns a fake composite, so shoppers in production must never be served it. */
+export function isMockModelEnabled(): boolean {
+  return isMockMode() || process.env.NODE_ENV === 'development';
+}
+
+export function resolveTryOnProvider(model: string): TryOnProvider {
+  if (isMockMode()) {
+    const mock = providers.get(MOCK_PROVIDER_ID);
+    if (mock) {
+      return mock;
+    }
+  }
+  for (const provider of providers.values()) {
+    if (model in provider.models) {
+      if (provider.id === MOCK_PROVIDER_ID && !isMockModelEnabled()) {
+        throw new AiFlowError({
+          kind: 'unsupported_model',
+          model,
+          message: `The offline mock model "${model}" is only available in mock mode or development.`,
+        });
+      }
+      return provider;
+    }
+  }
+  throw new AiFlowError({
+    kind: 'unsupported_model',
+    model,
+    message: `No try-on provider is registered for model "${model}".`,
+  });
+}
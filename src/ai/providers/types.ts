@@ -0,0 +1,53 @@
+/**
+ * @fileOverview Shared types for try-on providers.
+ *
+ * A provider is a backend that can turn a user image and an item image into a
+ * try-on image. Providers register themselves with the registry in
+ * `registry.ts`, and `generateAiTryOn` dispatches to them by model id.
+ */
+
+import type {GarmentRegion} from '@/lib/products';
+
+export interface TryOnProviderCapabilities {
+  /** Whether the provider can accept HTTP/S item image URLs (loading them through the shared image loader). */
+  acceptsRemoteImages: boolean;
+  /** Whether the provider needs GEMINI_API_KEY (or equivalent) to run. */
+  requiresApiKey: boolean;
+  /** Whether the provider works with no network access at all. */
+  offline: boolean;
+  /** Whether the provider's upstream model can actually perform image editing for try-on. */
+  supportsTryOn: boolean;
+}
+
+export interface TryOnProviderRequest {
+  /** The model id the user picked, e.g. 'googleai/gemini-2.0-flash'. */
+  model: string;
+  userImage: string;
+  itemImage: string;
+  garmentRegion: GarmentRegion;
+  prompt: string;
+  temperature: number;
+  /** Index of this sample when several candidates are requested; lets deterministic providers vary their output. */
+  candidateIndex: number;
+  /**
+   * Aborted when the attempt times out. Providers check it before calling their model so a
+   * timed-out attempt does not start a paid call; calls already sent are not cancelled.
+   */
+  signal?: AbortSignal;
+  /** Receives text the model returns alongside the image, for providers that support it. */
+  onCommentary?: (text: string) => void;
+}
+
+export interface TryOnProviderResult {
+  /** The generated image as a data URI. */
+  generatedImage: string;
+}
+
+export interface TryOnProvider {
+  id: string;
+  displayName: string;
+  /** The model ids this provider serves, mapped to the upstream model name it calls. */
+  models: Record<string, string>;
+  capabilities: TryOnProviderCapabilities;
+  generate(request: TryOnProviderRequest): Promise<TryOnProviderResult>;
+}
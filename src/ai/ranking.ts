@@ -0,0 +1,139 @@
+/**
+ * @fileOverview Ranks try-on candidates so the best one is shown first.
+ *
+ * Each scorer returns a value in [0, 1], or `null` when its signal does not
+ * apply to a candidate (a verifier that did not run, no face found). A
+ * candidate's overall score is the weighted mean over the scorers that apply
+ * to every candidate, so all totals are computed from the same signals and
+ * stay comparable. A scorer that throws is logged and treated as not
+ * applicable rather than failing the whole ranking.
+ *
+ * - rankTryOnCandidates - Scores candidates and returns them best-first.
+ * - CandidateScorer - A single ranking signal.
+ */
+
+import sharp from 'sharp';
+import {decodeImageDataUri} from '@/ai/images/data-uri';
+import type {CanvasIntegrityResult} from '@/ai/verification/canvas-integrity';
+import type {IdentityCheckResult} from '@/ai/verification/face-identity';
+import {logger} from '@/ai/observability/logger';
+
+export interface RankingContext {
+  userImage: string;
+}
+
+/** A candidate as seen by scorers: the image plus any verification results already computed. */
+export interface ScorableCandidate {
+  generatedImage: string;
+  canvasIntegrity?: CanvasIntegrityResult;
+  identity?: IdentityCheckResult;
+  colourFidelity?: {score: number};
+}
+
+export interface CandidateScorer {
+  name: string;
+  weight: number;
+  /** Returns `null` when the signal does not apply to this candidate. */
+  score(candidate: ScorableCandidate, context: RankingContext): Promise<number | null>;
+}
+
+export interface RankedCandidate {
+  rank: number;
+  score: number;
+  scores: Record<string, number>;
+}
+
+async function getAspectRatio(dataUri: string): Promise<number> {
+  const {width, height} = await sharp(decodeImageDataUri(dataUri)).metadata();
+  if (!width || !height) {
+    throw new Error('Could not read image dimensions.');
+  }
+  return width / height;
+}
+
+/** Penalises outputs whose framing drifted from the user photo (cropped, padded or squashed). */
+export const aspectRatioScorer: CandidateScorer = {
+  name: 'aspectRatio',
+  weight: 1,
+  async score(candidate, context) {
+    const [input, output] = await Promise.all([
+      getAspectRatio(context.userImage),
+      getAspectRatio(candidate.generatedImage),
+    ]);
+    return Math.max(0, 1 - Math.abs(Math.log(output / input)));
+  },
+};
+
+/** Prefers candidates that left more of the user canvas untouched. */
+export const canvasIntegrityScorer: CandidateScorer = {
+  name: 'canvasIntegrity',
+  weight: 2,
+  async score(candidate) {
+    return candidate.canvasIntegrity?.score ?? null;
+  },
+};
+
+/** Prefers candidates whose face is closest to the user's; not applicable when no face was compared. */
+export const identityScorer: CandidateScorer = {
+  name: 'identity',
+  weight: 2,
+  async score(candidate) {
+    return candidate.identity?.similarity ?? null;
+  },
+};
+
+/** Prefers candidates whose garment is closest to the item's colours; not applicable when they were not measured. */
+export const colourFidelityScorer: CandidateScorer = {
+  name: 'colourFidelity',
+  weight: 1,
+  async score(candidate) {
+    return candidate.colourFidelity?.score ?? null;
+  },
+};
+
+export const DEFAULT_CANDIDATE_SCORERS: CandidateScorer[] = [
+  aspectRatioScorer,
+  canvasIntegrityScorer,
+  identityScorer,
+  colourFidelityScorer,
+];
+
+async function runScorer(scorer: CandidateScorer, candidate: ScorableCandidate, context: RankingContext): Promise<number | null> {
+  try {
+    return await scorer.score(candidate, context);
+  } catch (error) {
+    logger.warn('Candidate scorer failed.', {scorer: scorer.name, error});
+    return null;
+  }
+}
+
+export async function rankTryOnCandidates<T extends ScorableCandidate>(
+  candidates: T[],
+  context: RankingContext,
+  scorers: CandidateScorer[] = DEFAULT_CANDIDATE_SCORERS
+): Promise<(T & RankedCandidate)[]> {
+  const values = await Promise.all(
+    candidates.map(candidate => Promise.all(scorers.map(scorer => runScorer(scorer, candidate, context))))
+  );
+  // Only scorers with a value for every candidate count, so each total uses the same weights.
+  const applicable = scorers.filter((_, index) => values.every(candidateValues => candidateValues[index] !== null));
+  const totalWeight = applicable.reduce((sum, scorer) => sum + scorer.weight, 0);
+  const scored = candidates.map((candidate, candidateIndex) => {
+    const scores: Record<string, number> = {};
+    let weighted = 0;
+    scorers.forEach((scorer, index) => {
+      const value = values[candidateIndex][index];
+      if (value === null) {
+        return;
+      }
+      scores[scorer.name] = value;
+      if (applicable.includes(scorer)) {
+        weighted += value * scorer.weight;
+      }
+    });
+    return {...candidate, scores, score: totalWeight > 0 ? weighted / totalWeight : 0};
+  });
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .map((candidate, index) => ({...candidate, rank: index + 1}));
+}
@@ -0,0 +1,139 @@
+/**
+ * @fileOverview Per-visitor rate limits on the AI server actions, so nobody can loop them on our API key.
+ *
+ * Each budget allows a number of calls per fixed window: photo validation,
+ * photo fixes, try-on generation and judging are counted separately. A visitor is keyed
+ * by their session cookie (set by `src/middleware.ts`) or, before they have
+ * one, by their IP address. Because a cookie can be dropped, each IP address
+ * also has a ceiling of `RATE_LIMIT_IP_MULTIPLIER` (default 5) times the
+ * budget, which leaves room for several people behind one NAT.
+ *
+ * The client IP is read from X-Forwarded-For, counting
+ * `RATE_LIMIT_TRUSTED_PROXIES` (default 1) entries from the right, since
+ * entries further left can be set by the client.
+ *
+ * Calls made outside a Next.js request (scripts, evals, the Genkit developer
+ * UI) have no visitor and are not limited. When the store fails at runtime,
+ * the call is let through and the failure logged, so a Redis outage does not
+ * take the studio down; an invalid store configuration throws instead.
+ *
+ * - enforceRateLimit - Counts a call against a budget, throwing `quota_exceeded` once it is spent.
+ * - RATE_LIMIT_BUDGETS - Calls allowed per window for each budget.
+ */
+
+import {cookies, headers} from 'next/headers';
+import {AiFlowError, type QuotaBudget} from '@/ai/errors';
+import {logger} from '@/ai/observability/logger';
+import {SESSION_COOKIE} from './session';
+import {getRateLimitStore} from './stores';
+
+interface RateLimitBudget {
+  max: number;
+  windowMs: number;
+  /** What a call is, for messages, e.g. "try-ons". */
+  noun: string;
+}
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export const RATE_LIMIT_BUDGETS: Record<QuotaBudget, RateLimitBudget> = {
+  validation: {
+    max: Number(process.env.RATE_LIMIT_VALIDATION_MAX ?? 30),
+    windowMs: Number(process.env.RATE_LIMIT_VALIDATION_WINDOW_MS ?? 10 * MINUTE_MS),
+    noun: 'photo checks',
+  },
+  fixing: {
+    max: Number(process.env.RATE_LIMIT_FIXING_MAX ?? 20),
+    windowMs: Number(process.env.RATE_LIMIT_FIXING_WINDOW_MS ?? 10 * MINUTE_MS),
+    noun: 'photo fixes',
+  },
+  generation: {
+    max: Number(process.env.RATE_LIMIT_GENERATION_MAX ?? 10),
+    windowMs: Number(process.env.RATE_LIMIT_GENERATION_WINDOW_MS ?? HOUR_MS),
+    noun: 'try-ons',
+  },
+  judging: {
+    max: Number(process.env.RATE_LIMIT_JUDGING_MAX ?? 20),
+    windowMs: Number(process.env.RATE_LIMIT_JUDGING_WINDOW_MS ?? HOUR_MS),
+    noun: 'quality checks',
+  },
+};
+
+const IP_MULTIPLIER = Number(process.env.RATE_LIMIT_IP_MULTIPLIER ?? 5);
+const TRUSTED_PROXIES = Number(process.env.RATE_LIMIT_TRUSTED_PROXIES ?? 1);
+
+interface Visitor {
+  sessionId?: string;
+  ip: string;
+}
+
+async function getVisitor(): Promise<Visitor | undefined> {
+  let requestHeaders: Awaited<ReturnType<typeof headers>>;
+  let requestCookies: Awaited<ReturnType<typeof cookies>>;
+  try {
+    [requestHeaders, requestCookies] = await Promise.all([headers(), cookies()]);
+  } catch {
+    // Not inside a Next.js request.
+    return undefined;
+  }
+  const forwarded = (requestHeaders.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  const ip = forwarded[Math.max(0, forwarded.length - TRUSTED_PROXIES)] ?? requestHeaders.get('x-real-ip') ?? 'unknown';
+  return {sessionId: requestCookies.get(SESSION_COOKIE)?.value, ip};
+}
+
+function formatWait(ms: number): string {
+  if (ms < MINUTE_MS) {
+    return `${Math.ceil(ms / 1000)} seconds`;
+  }
+  const minutes = Math.ceil(ms / MINUTE_MS);
+  return minutes === 1 ? '1 minute' : `${minutes} minutes`;
+}
+
+function formatWindow(ms: number): string {
+  if (ms % HOUR_MS === 0) {
+    return ms === HOUR_MS ? 'hour' : `${ms / HOUR_MS} hours`;
+  }
+  return ms === MINUTE_MS ? 'minute' : `${Math.round(ms / MINUTE_MS)} minutes`;
+}
+
+export async function enforceRateLimit(budget: QuotaBudget): Promise<void> {
+  const visitor = await getVisitor();
+  if (!visitor) {
+    return;
+  }
+  const {max, windowMs, noun} = RATE_LIMIT_BUDGETS[budget];
+  const limits = visitor.sessionId
+    ? [
+        {key: `${budget}:session:${visitor.sessionId}`, max},
+        {key: `${budget}:ip:${visitor.ip}`, max: max * IP_MULTIPLIER},
+      ]
+    : [{key: `${budget}:ip:${visitor.ip}`, max}];
+
+  // Outside the try: a misconfigured store must not turn the limits off.
+  const store = getRateLimitStore();
+  let retryAfterMs = 0;
+  try {
+    for (const limit of limits) {
+      const {count, resetAt} = await store.increment(limit.key, windowMs);
+      if (count > limit.max) {
+        retryAfterMs = Math.max(retryAfterMs, resetAt - Date.now());
+      }
+    }
+  } catch (error) {
+    logger.error('Rate limit store failed; allowing the call.', {budget, error});
+    return;
+  }
+  if (retryAfterMs > 0) {
+    logger.warn('Rate limited a call.', {budget, retryAfterMs});
+    throw new AiFlowError({
+      kind: 'quota_exceeded',
+      budget,
+      retryAfterMs,
+      message: `You've reached the limit of ${max} ${noun} per ${formatWindow(windowMs)}. You can try again in ${formatWait(retryAfterMs)}.`,
+    });
+  }
+}
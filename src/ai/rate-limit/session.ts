@@ -0,0 +1,10 @@
+/**
+ * @fileOverview The anonymous session cookie the rate limiter keys visitors by.
+ *
+ * Kept apart from the limiter so the edge middleware that sets the cookie does
+ * not bundle the limiter's server-only dependencies.
+ *
+ * - SESSION_COOKIE - The name of the session cookie.
+ */
+
+export const SESSION_COOKIE = 'tryon_session';
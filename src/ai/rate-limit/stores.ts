@@ -0,0 +1,130 @@
+/**
+ * @fileOverview Counter stores behind the AI rate limiter and the spend budgets.
+ *
+ * A store counts hits per key in fixed windows: the first hit on a key starts
+ * a window of `windowMs`, and the count resets when it ends. A hit can add
+ * more than one (spend is counted in micro-dollars), or nothing, to read the
+ * current count. The in-memory store suits development and single-instance
+ * deployments; with several server instances the counts must be shared, so
+ * production uses the Redis-compatible store (Redis, Valkey, Dragonfly,
+ * Upstash and the like). RATE_LIMIT_STORE selects `memory` (the default) or
+ * `redis`, which connects to RATE_LIMIT_REDIS_URL. The configuration is
+ * checked at server startup (`src/instrumentation.ts`), so a typo fails the
+ * deploy instead of quietly leaving the limits off. Another store can be
+ * plugged in with `setRateLimitStore`.
+ *
+ * - assertRateLimitStoreConfig - Throws when RATE_LIMIT_STORE or RATE_LIMIT_REDIS_URL is invalid.
+ * - getRateLimitStore - The store selected by RATE_LIMIT_STORE, created on first use.
+ * - setRateLimitStore - Replaces the store, e.g. with a custom one.
+ * - createMemoryRateLimitStore - A store that keeps counts in process memory.
+ * - createRedisRateLimitStore - A store that keeps counts in a Redis-compatible server.
+ * - RateLimitStore - Counts hits per key in fixed windows.
+ * - RateLimitCount - A key's hits in its current window.
+ */
+
+import Redis from 'ioredis';
+
+export interface RateLimitCount {
+  /** The total added in the current window, including this hit. */
+  count: number;
+  /** When the current window ends, in epoch milliseconds. */
+  resetAt: number;
+}
+
+export interface RateLimitStore {
+  /** Adds `amount` (default 1) to `key` and returns the count for its window. */
+  increment(key: string, windowMs: number, amount?: number): Promise<RateLimitCount>;
+}
+
+/** The part of a Redis client the store needs; ioredis clients satisfy it. */
+export interface RedisLikeClient {
+  eval(script: string, numKeys: number, ...args: (string | number)[]): Promise<unknown>;
+}
+
+/** Keys are swept for expired windows once the map grows past this. */
+const MEMORY_SWEEP_THRESHOLD = 10_000;
+const REDIS_KEY_PREFIX = 'rate-limit:';
+
+// Atomic so concurrent requests cannot both start a window and each get a fresh count.
+const INCREMENT_SCRIPT = `
+local count = redis.call('INCRBY', KEYS[1], ARGV[2])
+if redis.call('PTTL', KEYS[1]) == -1 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+end
+return {count, redis.call('PTTL', KEYS[1])}
+`;
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, RateLimitCount>();
+  return {
+    async increment(key, windowMs, amount = 1) {
+      const now = Date.now();
+      if (windows.size > MEMORY_SWEEP_THRESHOLD) {
+        for (const [windowKey, window] of windows) {
+          if (window.resetAt <= now) windows.delete(windowKey);
+        }
+      }
+      let window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        window = {count: 0, resetAt: now + windowMs};
+        windows.set(key, window);
+      }
+      window.count += amount;
+      return {...window};
+    },
+  };
+}
+
+export function createRedisRateLimitStore(client: RedisLikeClient): RateLimitStore {
+  return {
+    async increment(key, windowMs, amount = 1) {
+      const [count, ttlMs] = (await client.eval(INCREMENT_SCRIPT, 1, `${REDIS_KEY_PREFIX}${key}`, windowMs, amount)) as [
+        number,
+        number,
+      ];
+      // A negative TTL means the key has no expiry, which the script never leaves; treat it as a full window.
+      return {count, resetAt: Date.now() + (ttlMs >= 0 ? ttlMs : windowMs)};
+    },
+  };
+}
+
+type StoreConfig = {kind: 'memory'} | {kind: 'redis'; url: string};
+
+let store: RateLimitStore | undefined;
+
+function readStoreConfig(): StoreConfig {
+  const kind = process.env.RATE_LIMIT_STORE ?? 'memory';
+  if (kind === 'memory') {
+    return {kind};
+  }
+  if (kind === 'redis') {
+    const url = process.env.RATE_LIMIT_REDIS_URL;
+    if (!url) {
+      throw new Error('RATE_LIMIT_STORE=redis needs RATE_LIMIT_REDIS_URL.');
+    }
+    return {kind, url};
+  }
+  throw new Error(`Invalid RATE_LIMIT_STORE "${kind}". Expected "memory" or "redis".`);
+}
+
+export function assertRateLimitStoreConfig(): void {
+  readStoreConfig();
+}
+
+function createConfiguredStore(): RateLimitStore {
+  const config = readStoreConfig();
+  if (config.kind === 'memory') {
+    return createMemoryRateLimitStore();
+  }
+  // Fail fast rather than queueing commands while Redis is unreachable; the limiter lets requests through.
+  return createRedisRateLimitStore(new Redis(config.url, {maxRetriesPerRequest: 1, enableOfflineQueue: false}));
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  store ??= createConfiguredStore();
+  return store;
+}
+
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
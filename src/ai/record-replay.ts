@@ -0,0 +1,180 @@
+/**
+ * @fileOverview Record and replay of Genkit model calls, so flows run offline and deterministically.
+ *
+ * Every `ai.generate` and prompt call passes `use: [recordReplay(callSite, model)]`.
+ * With `AI_RECORD_MODE=record`, each call goes to the model as usual and the
+ * response is stored as a fixture under `<AI_FIXTURES_DIR>/<callSite>/`, keyed
+ * by a fingerprint of the request (messages including their media, config,
+ * output schema and tools). Images in the response are written next to the
+ * fixture as separate files; the provider's raw response (`custom`) is left
+ * out, since it repeats those images. With `AI_RECORD_MODE=replay`, calls are answered
+ * from the fixtures without touching the network, and a request that was never
+ * recorded fails with its fingerprint. AI_FIXTURES_DIR defaults to
+ * `fixtures/model-calls` in the project root.
+ *
+ * Replayed calls return the final response only; chunks streamed while
+ * recording are not replayed.
+ *
+ * - recordReplay - Model middleware that records or replays one call site's model calls.
+ * - getRecordMode - The active mode from AI_RECORD_MODE, if any.
+ * - isReplayMode - Whether model calls are served from fixtures.
+ * - getFixturesRoot - The directory fixtures are read from and written to.
+ * - fingerprintModelRequest - The stable fixture key of a model request.
+ */
+
+import {createHash} from 'crypto';
+import {promises as fs} from 'fs';
+import path from 'path';
+import type {GenerateRequest, GenerateResponseData, ModelMiddleware} from 'genkit/model';
+import {decodeImageDataUri, isDataUri, parseImageDataUri, toImageDataUri} from '@/ai/images/data-uri';
+import {logger} from '@/ai/observability/logger';
+
+export type RecordMode = 'record' | 'replay';
+
+interface Fixture {
+  callSite: string;
+  model: string;
+  fingerprint: string;
+  recordedAt: string;
+  /** The request with media replaced by digests; for reading fixture diffs, not used for matching. */
+  request: unknown;
+  /** The model response, with media URLs pointing at files next to the fixture (`fixture:<file>`). */
+  response: GenerateResponseData;
+}
+
+const FIXTURE_MEDIA_PREFIX = 'fixture:';
+const EXTENSIONS: Record<string, string> = {'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp'};
+
+export function getRecordMode(): RecordMode | undefined {
+  const mode = process.env.AI_RECORD_MODE;
+  if (!mode || mode === 'off') {
+    return undefined;
+  }
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Invalid AI_RECORD_MODE "${mode}". Expected "record", "replay" or "off".`);
+  }
+  return mode;
+}
+
+export function isReplayMode(): boolean {
+  return getRecordMode() === 'replay';
+}
+
+export function getFixturesRoot(): string {
+  return path.resolve(process.env.AI_FIXTURES_DIR ?? path.join(process.cwd(), 'fixtures', 'model-calls'));
+}
+
+/** JSON with object keys sorted, so equal requests serialise identically. */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item
+  );
+}
+
+export function fingerprintModelRequest(callSite: string, model: string, request: GenerateRequest): string {
+  return createHash('sha256')
+    .update(canonicalJson({callSite, model, request}))
+    .digest('hex')
+    .slice(0, 32);
+}
+
+/** Deep-copies a JSON value, passing every `{media: {url}}` object's media through `map`. */
+async function mapMedia<T>(
+  value: T,
+  map: (media: {url: string; contentType?: string}) => Promise<{url: string; contentType?: string}>
+): Promise<T> {
+  if (Array.isArray(value)) {
+    return (await Promise.all(value.map(item => mapMedia(item, map)))) as T;
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+  const entries = await Promise.all(
+    Object.entries(value).map(async ([key, item]) => {
+      if (key === 'media' && item && typeof item === 'object' && typeof (item as {url?: unknown}).url === 'string') {
+        return [key, await map(item as {url: string; contentType?: string})];
+      }
+      return [key, await mapMedia(item, map)];
+    })
+  );
+  return Object.fromEntries(entries) as T;
+}
+
+async function writeFixture(dir: string, fixture: Fixture): Promise<void> {
+  await fs.mkdir(dir, {recursive: true});
+  let mediaIndex = 0;
+  const {custom: _custom, ...recorded} = fixture.response;
+  const response = await mapMedia(recorded, async media => {
+    if (!isDataUri(media.url)) {
+      return media;
+    }
+    const {mimeType} = parseImageDataUri(media.url);
+    const file = `${fixture.fingerprint}-${mediaIndex++}.${EXTENSIONS[mimeType] ?? 'bin'}`;
+    await fs.writeFile(path.join(dir, file), decodeImageDataUri(media.url));
+    return {...media, url: `${FIXTURE_MEDIA_PREFIX}${file}`, contentType: media.contentType ?? mimeType};
+  });
+  const request = await mapMedia(fixture.request, async media => {
+    if (!isDataUri(media.url)) {
+      return media;
+    }
+    const sha256 = createHash('sha256').update(media.url).digest('hex');
+    return {url: `sha256:${sha256}`, contentType: media.contentType ?? parseImageDataUri(media.url).mimeType};
+  });
+  await fs.writeFile(path.join(dir, `${fixture.fingerprint}.json`), JSON.stringify({...fixture, request, response}, null, 2));
+}
+
+async function readFixture(dir: string, fingerprint: string): Promise<GenerateResponseData | undefined> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(path.join(dir, `${fingerprint}.json`), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+  const fixture = JSON.parse(raw) as Fixture;
+  return mapMedia(fixture.response, async media => {
+    if (!media.url.startsWith(FIXTURE_MEDIA_PREFIX)) {
+      return media;
+    }
+    const data = await fs.readFile(path.join(dir, media.url.slice(FIXTURE_MEDIA_PREFIX.length)));
+    return {...media, url: toImageDataUri(media.contentType ?? 'application/octet-stream', data)};
+  });
+}
+
+/**
+ * @param callSite Names the code path making the call (e.g. `validate-image`); fixtures are grouped by it.
+ * @param model The model id, which Genkit does not include in the request the middleware sees.
+ */
+export function recordReplay(callSite: string, model: string): ModelMiddleware {
+  return async (request, next) => {
+    const mode = getRecordMode();
+    if (!mode) {
+      return next(request);
+    }
+    const dir = path.join(getFixturesRoot(), callSite);
+    const fingerprint = fingerprintModelRequest(callSite, model, request);
+
+    if (mode === 'replay') {
+      const response = await readFixture(dir, fingerprint);
+      if (!response) {
+        throw new Error(
+          `No recorded ${model} response for ${callSite} request ${fingerprint} in ${dir}. Record it with AI_RECORD_MODE=record.`
+        );
+      }
+      return response;
+    }
+
+    const response = await next(request);
+    try {
+      await writeFixture(dir, {callSite, model, fingerprint, recordedAt: new Date().toISOString(), request, response});
+    } catch (error) {
+      // A fixture that cannot be written should not fail the live call it records.
+      logger.warn('Could not record model call fixture.', {callSite, fingerprint, error});
+    }
+    return response;
+  };
+}
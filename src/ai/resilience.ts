@@ -0,0 +1,183 @@
+/**
+ * @fileOverview Retry, timeout and fallback policy for try-on provider calls.
+ *
+ * Each model has a resilience policy: how many attempts to make, how long
+ * each attempt may take, the jittered exponential backoff between retryable
+ * failures, and an ordered chain of fallback models to try once the model's
+ * own attempts are used up. Fallbacks whose provider cannot do try-on, or
+ * that are unavailable (e.g. no API key), are skipped. No other model can do
+ * try-on yet, so no policy names a fallback.
+ *
+ * A timed-out attempt is aborted through the request's `signal`, which stops
+ * a provider that has not yet called its model. Once the call is out it
+ * cannot be cancelled (neither Genkit nor the SDK takes a signal): it runs to
+ * completion alongside the retry, and its usage is still metered and added
+ * to the spend budget when it finishes, so both attempts count.
+ *
+ * - generateWithResilience - Calls the provider for a model under its policy, falling back down the chain.
+ * - getResiliencePolicy - The effective policy for a model id.
+ * - isRetryableError - Whether an error is worth retrying on the same model.
+ * - ResiliencePolicy - Retry, timeout and fallback settings for one model.
+ * - ResilientGenerateResult - The generated image plus which model produced it and after how many attempts.
+ */
+
+import {AiFlowError, toAiError, type AiError} from '@/ai/errors';
+import {getModelManifest, type TryOnModelId} from '@/ai/models';
+import {isMockMode, resolveTryOnProvider, type TryOnProviderRequest} from '@/ai/providers';
+import {logger} from '@/ai/observability/logger';
+
+export interface ResiliencePolicy {
+  /** Attempts on this model before moving to the next fallback, including the first. */
+  maxAttempts: number;
+  /** Base delay of the exponential backoff; the actual delay is jittered between 0 and the current ceiling. */
+  baseDelayMs: number;
+  /** Upper bound on a single backoff delay. A longer `retryAfterMs` skips straight to the next fallback. */
+  maxDelayMs: number;
+  /** How long one provider call may take before it counts as an `upstream_timeout`. */
+  attemptTimeoutMs: number;
+  /** Models to try, in order, once this model's attempts are exhausted. */
+  fallbackModels: TryOnModelId[];
+}
+
+export interface ResilientGenerateResult {
+  generatedImage: string;
+  /** The model that produced the image; differs from the requested one after a fallback. */
+  model: TryOnModelId;
+  /** The provider that served `model`. */
+  provider: string;
+  /** Provider calls made in total, across retries and fallbacks. */
+  attempts: number;
+}
+
+export interface RetryNotice {
+  model: TryOnModelId;
+  /** 1-based number of the attempt about to be made, across the whole chain. */
+  attempt: number;
+  error: AiError;
+  /** Whether the next attempt moves to a fallback model. */
+  fallback: boolean;
+}
+
+const DEFAULT_POLICY: ResiliencePolicy = {
+  maxAttempts: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+  attemptTimeoutMs: 60_000,
+  fallbackModels: [],
+};
+
+const MODEL_POLICIES: Partial<Record<TryOnModelId, Partial<ResiliencePolicy>>> = {
+  // The image-preview model intermittently answers with text only, so it gets an extra retry.
+  'googleai/gemini-2.0-flash': {maxAttempts: 3, baseDelayMs: 1_000},
+  imagen3: {attemptTimeoutMs: 90_000},
+  imagen4: {attemptTimeoutMs: 90_000},
+  mock: {maxAttempts: 1, attemptTimeoutMs: 10_000},
+};
+
+export function getResiliencePolicy(model: TryOnModelId): ResiliencePolicy {
+  return {...DEFAULT_POLICY, ...MODEL_POLICIES[model]};
+}
+
+export function isRetryableError(error: AiError): boolean {
+  switch (error.kind) {
+    case 'rate_limited':
+    case 'upstream_timeout':
+    case 'no_image_returned':
+    case 'unknown':
+      return true;
+    default:
+      return false;
+  }
+}
+
+function backoffDelay(policy: ResiliencePolicy, retry: number): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/** Runs one attempt, aborting its signal and rejecting with `upstream_timeout` once `timeoutMs` passes. */
+async function withTimeout<T>(call: (signal: AbortSignal) => Promise<T>, timeoutMs: number, model: string): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new AiFlowError({kind: 'upstream_timeout', message: `${model} did not respond within ${timeoutMs}ms.`});
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+  try {
+    // A model call already in flight is not cancelled by the abort; its late result is ignored.
+    return await Promise.race([call(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** The requested model followed by its usable fallbacks, without repeats. */
+function getModelChain(model: TryOnModelId): TryOnModelId[] {
+  if (isMockMode()) {
+    // Every model resolves to the mock provider, so falling back would only repeat the same call.
+    return [model];
+  }
+  const available = new Set(getModelManifest().flatMap(entry => (entry.available ? [entry.id] : [])));
+  const fallbacks = getResiliencePolicy(model).fallbackModels.filter(fallback => fallback !== model && available.has(fallback));
+  return [model, ...new Set(fallbacks)];
+}
+
+export async function generateWithResilience(
+  model: TryOnModelId,
+  request: Omit<TryOnProviderRequest, 'model'>,
+  onRetry?: (notice: RetryNotice) => void
+): Promise<ResilientGenerateResult> {
+  const chain = getModelChain(model);
+  let attempts = 0;
+  let lastError: unknown;
+
+  for (const [chainIndex, chainModel] of chain.entries()) {
+    const provider = resolveTryOnProvider(chainModel);
+    const policy = getResiliencePolicy(chainModel);
+    for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+      attempts++;
+      try {
+        const {generatedImage} = await withTimeout(
+          signal => provider.generate({...request, model: chainModel, signal}),
+          policy.attemptTimeoutMs,
+          chainModel
+        );
+        return {generatedImage, model: chainModel, provider: provider.id, attempts};
+      } catch (error) {
+        lastError = error;
+        const detail = toAiError(error);
+        if (detail.kind === 'invalid_input' || detail.kind === 'budget_exceeded') {
+          // The inputs themselves are rejected, or the spend cap is reached; no other attempt or model will succeed.
+          throw error;
+        }
+        const hasNextModel = chainIndex < chain.length - 1;
+        const retryAfterMs = detail.kind === 'rate_limited' ? detail.retryAfterMs : undefined;
+        const canRetry =
+          isRetryableError(detail) && attempt < policy.maxAttempts && (retryAfterMs ?? 0) <= policy.maxDelayMs;
+        if (!canRetry && !hasNextModel) {
+          break;
+        }
+        logger.warn(canRetry ? 'Try-on attempt failed; retrying.' : 'Try-on attempt failed; falling back.', {
+          attempt: attempts,
+          model: chainModel,
+          errorKind: detail.kind,
+          nextModel: canRetry ? chainModel : chain[chainIndex + 1],
+        });
+        onRetry?.({model: canRetry ? chainModel : chain[chainIndex + 1], attempt: attempts + 1, error: detail, fallback: !canRetry});
+        if (!canRetry) {
+          break;
+        }
+        await sleep(Math.max(retryAfterMs ?? 0, backoffDelay(policy, attempt)));
+      }
+    }
+  }
+
+  throw lastError;
+}
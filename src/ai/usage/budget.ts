@@ -0,0 +1,118 @@
+/**
+ * @fileOverview Daily and monthly spend caps on model calls, enforced by a circuit breaker.
+ *
+ * Estimated spend is added to per-day and per-month totals (UTC) in the
+ * shared counter store, see `src/ai/rate-limit/stores.ts`, so every server
+ * instance sees the same totals. Once either total reaches its cap
+ * (`AI_DAILY_BUDGET_USD`, default 25, and `AI_MONTHLY_BUDGET_USD`, default
+ * 500) the breaker opens: every model call and AI action fails with
+ * `budget_exceeded` until the day or month rolls over, and the studio shows a
+ * "try again later" state. While open, the breaker answers from memory
+ * without touching the store. A cap of 0 disables it.
+ *
+ * Mock and replay runs make no paid calls and are never stopped. When the
+ * store fails at runtime, calls are let through and the failure logged.
+ *
+ * - assertAiBudgetAvailable - Throws `budget_exceeded` while the breaker is open.
+ * - addAiSpend - Adds the estimated cost of a call to the day and month totals.
+ * - AI_DAILY_BUDGET_USD - The daily spend cap.
+ * - AI_MONTHLY_BUDGET_USD - The monthly spend cap.
+ */
+
+import {AiFlowError} from '@/ai/errors';
+import {isMockMode} from '@/ai/providers/registry';
+import {isReplayMode} from '@/ai/record-replay';
+import {getRateLimitStore, type RateLimitStore} from '@/ai/rate-limit/stores';
+import {logger} from '@/ai/observability/logger';
+
+export const AI_DAILY_BUDGET_USD = Number(process.env.AI_DAILY_BUDGET_USD ?? 25);
+export const AI_MONTHLY_BUDGET_USD = Number(process.env.AI_MONTHLY_BUDGET_USD ?? 500);
+
+const MICRO_USD = 1_000_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface SpendPeriod {
+  key: string;
+  capUsd: number;
+  /** When the period ends, in epoch milliseconds. */
+  endsAt: number;
+  label: string;
+}
+
+/** The breaker stays open until this time; 0 when closed. */
+let openUntil = 0;
+
+function getSpendPeriods(now: Date): SpendPeriod[] {
+  const day = now.toISOString().slice(0, 10);
+  const month = day.slice(0, 7);
+  return [
+    {
+      key: `ai-spend:day:${day}`,
+      capUsd: AI_DAILY_BUDGET_USD,
+      endsAt: Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1),
+      label: 'daily',
+    },
+    {
+      key: `ai-spend:month:${month}`,
+      capUsd: AI_MONTHLY_BUDGET_USD,
+      endsAt: Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1),
+      label: 'monthly',
+    },
+  ];
+}
+
+/** Adds `amount` micro-dollars to each period and opens the breaker if one reaches its cap. */
+async function updateSpend(store: RateLimitStore, amount: number): Promise<void> {
+  const now = new Date();
+  for (const period of getSpendPeriods(now)) {
+    // Totals outlive their period by a day so late calls in another instance still find them.
+    const {count} = await store.increment(period.key, period.endsAt - now.getTime() + DAY_MS, amount);
+    if (period.capUsd > 0 && count >= period.capUsd * MICRO_USD && openUntil < period.endsAt) {
+      openUntil = period.endsAt;
+      logger.error(`AI ${period.label} budget reached; model calls are paused.`, {
+        capUsd: period.capUsd,
+        spentUsd: count / MICRO_USD,
+        pausedUntil: new Date(period.endsAt).toISOString(),
+      });
+    }
+  }
+}
+
+function isMetered(): boolean {
+  return !isMockMode() && !isReplayMode();
+}
+
+export async function assertAiBudgetAvailable(): Promise<void> {
+  if (!isMetered()) {
+    return;
+  }
+  if (Date.now() >= openUntil) {
+    openUntil = 0;
+    const store = getRateLimitStore();
+    try {
+      await updateSpend(store, 0);
+    } catch (error) {
+      logger.error('AI spend store failed; allowing the call.', {error});
+      return;
+    }
+  }
+  if (openUntil > 0) {
+    throw new AiFlowError({
+      kind: 'budget_exceeded',
+      retryAfterMs: openUntil - Date.now(),
+      message: 'AI try-on has reached its usage limit for now. Please try again later.',
+    });
+  }
+}
+
+export async function addAiSpend(costUsd: number): Promise<void> {
+  if (!isMetered() || costUsd <= 0) {
+    return;
+  }
+  const store = getRateLimitStore();
+  try {
+    await updateSpend(store, Math.round(costUsd * MICRO_USD));
+  } catch (error) {
+    logger.error('Could not record AI spend.', {error});
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * @fileOverview Records the usage and estimated cost of every model call.
+ *
+ * Genkit calls pass `use: [recordReplay(...), meterModelUsage(callSite, model)]`;
+ * the direct SDK provider wraps its call in `traceModelCall` itself. Each call is
+ * logged as a `model_usage` JSON line with the calling flow, model, token
+ * and image counts, latency and estimated cost (see `prices.ts`), and its
+ * cost is added to the spend budgets (see `budget.ts`). Before a call goes
+ * out the budget breaker is checked, so no call is made once a cap is
+ * reached. Replayed calls never reach this middleware, so they are neither
+ * logged nor costed. Metered calls also run in a `model.generate` span
+ * carrying the same counts, see `src/ai/observability/tracing.ts`.
+ *
+ * - meterModelUsage - Model middleware that checks the budget, then records one call site's usage in a span.
+ * - traceModelCall - Runs one model call in a span and records its usage.
+ * - ModelUsageRecord - What is recorded about one call.
+ */
+
+import type {GenerateRequest, GenerateResponseData, ModelMiddleware} from 'genkit/model';
+import {logger} from '@/ai/observability/logger';
+import {withSpan} from '@/ai/observability/tracing';
+import {addAiSpend, assertAiBudgetAvailable} from './budget';
+import {estimateCostUsd, type ModelUsage} from './prices';
+
+export interface ModelUsageRecord extends ModelUsage {
+  /** The code path that made the call, e.g. `validate-image`; matches the record/replay call site. */
+  callSite: string;
+  model: string;
+  latencyMs: number;
+  costUsd: number;
+}
+
+async function recordModelUsage(record: Omit<ModelUsageRecord, 'costUsd'>): Promise<ModelUsageRecord> {
+  const costUsd = estimateCostUsd(record.model, record);
+  const full = {...record, costUsd};
+  logger.info('Model call', {event: 'model_usage', ...full, costUsd: Number(costUsd.toFixed(6))});
+  await addAiSpend(costUsd);
+  return full;
+}
+
+/** Runs one model call in a `model.generate` span and stamps the recorded usage on it. */
+export function traceModelCall<T>(
+  callSite: string,
+  model: string,
+  call: () => Promise<T>,
+  usageOf: (result: T, latencyMs: number) => Omit<ModelUsageRecord, 'costUsd'>
+): Promise<T> {
+  return withSpan('model.generate', {'ai.call_site': callSite, 'ai.model': model}, async span => {
+    const startedAt = Date.now();
+    const result = await call();
+    const record = await recordModelUsage(usageOf(result, Date.now() - startedAt));
+    span.setAttributes({
+      'ai.usage.input_tokens': record.inputTokens,
+      'ai.usage.output_tokens': record.outputTokens,
+      'ai.usage.input_images': record.inputImages,
+      'ai.usage.output_images': record.outputImages,
+      'ai.cost_usd': record.costUsd,
+    });
+    return result;
+  });
+}
+
+function countMedia(messages: {content: {media?: unknown}[]}[]): number {
+  return messages.reduce((sum, message) => sum + message.content.filter(part => part.media).length, 0);
+}
+
+/** Token counts come from the model; image counts fall back to the media parts when it does not report them. */
+function toModelUsage(request: GenerateRequest, response: GenerateResponseData): ModelUsage {
+  const usage = response.usage ?? {};
+  const outputMessages = [
+    ...(response.message ? [response.message] : []),
+    ...(response.candidates ?? []).map(candidate => candidate.message),
+  ];
+  return {
+    inputTokens: usage.inputTokens ?? 0,
+    outputTokens: usage.outputTokens ?? 0,
+    inputImages: usage.inputImages ?? countMedia(request.messages),
+    outputImages: usage.outputImages ?? countMedia(outputMessages),
+  };
+}
+
+/**
+ * @param callSite Names the code path making the call; use the same name as its `recordReplay` middleware.
+ * @param model The model id, which Genkit does not include in the request the middleware sees.
+ */
+export function meterModelUsage(callSite: string, model: string): ModelMiddleware {
+  return async (request, next) => {
+    await assertAiBudgetAvailable();
+    return traceModelCall(callSite, model, () => next(request), (response, latencyMs) => ({
+      callSite,
+      model,
+      latencyMs,
+      ...toModelUsage(request, response),
+    }));
+  };
+}
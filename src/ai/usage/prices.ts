@@ -0,0 +1,78 @@
+/**
+ * @fileOverview Price table used to estimate what each model call costs.
+ *
+ * Prices are in US dollars: per million input and output tokens, and per
+ * input and output image for models billed by the image. The defaults are
+ * the published list prices when this was written; set AI_PRICE_TABLE to a
+ * JSON file of `{"<model>": {...ModelPrice}}` to override or add models
+ * (entries are merged over the defaults). Models are looked up without their
+ * plugin prefix, so `googleai/gemini-2.0-flash` and `gemini-2.0-flash` share
+ * a price. Calls to a model without a price are costed at zero and logged.
+ *
+ * - estimateCostUsd - The estimated cost of one call from its usage.
+ * - getModelPrice - The price entry for a model, if any.
+ * - ModelPrice - Per-token and per-image prices for one model.
+ * - ModelUsage - The billable quantities of one call.
+ */
+
+import {readFileSync} from 'fs';
+import {logger} from '@/ai/observability/logger';
+
+export interface ModelPrice {
+  inputPerMillionTokens?: number;
+  outputPerMillionTokens?: number;
+  perInputImage?: number;
+  perOutputImage?: number;
+}
+
+export interface ModelUsage {
+  inputTokens: number;
+  outputTokens: number;
+  inputImages: number;
+  outputImages: number;
+}
+
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.0-flash': {inputPerMillionTokens: 0.1, outputPerMillionTokens: 0.4},
+  // Generated images are billed per image, on top of the text tokens.
+  'gemini-2.0-flash-preview-image-generation': {inputPerMillionTokens: 0.1, outputPerMillionTokens: 0.4, perOutputImage: 0.039},
+  'imagen-3.0-generate-002': {perOutputImage: 0.03},
+  'imagen-4.0-generate-preview-06-06': {perOutputImage: 0.04},
+};
+
+let prices: Record<string, ModelPrice> | undefined;
+const unpricedModels = new Set<string>();
+
+function loadPrices(): Record<string, ModelPrice> {
+  const file = process.env.AI_PRICE_TABLE;
+  if (!file) {
+    return DEFAULT_MODEL_PRICES;
+  }
+  const overrides = JSON.parse(readFileSync(file, 'utf8')) as Record<string, ModelPrice>;
+  return {...DEFAULT_MODEL_PRICES, ...overrides};
+}
+
+function toPriceKey(model: string): string {
+  return model.slice(model.indexOf('/') + 1);
+}
+
+export function getModelPrice(model: string): ModelPrice | undefined {
+  prices ??= loadPrices();
+  return prices[toPriceKey(model)];
+}
+
+export function estimateCostUsd(model: string, usage: ModelUsage): number {
+  const price = getModelPrice(model);
+  if (!price) {
+    if (!unpricedModels.has(model)) {
+      unpricedModels.add(model);
+      logger.warn('No price for model; its calls are costed at zero. Add it to AI_PRICE_TABLE.', {model});
+    }
+    return 0;
+  }
+  const tokenCost =
+    (usage.inputTokens * (price.inputPerMillionTokens ?? 0) + usage.outputTokens * (price.outputPerMillionTokens ?? 0)) /
+    1_000_000;
+  const imageCost = usage.inputImages * (price.perInputImage ?? 0) + usage.outputImages * (price.perOutputImage ?? 0);
+  return tokenCost + imageCost;
+}
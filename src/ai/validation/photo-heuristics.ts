@@ -0,0 +1,352 @@
+/**
+ * @fileOverview Deterministic local checks run on a user photo before any model sees it.
+ *
+ * Tiny, truncated, pitch-black, blown-out, extremely elongated or badly blurred
+ * photos can be rejected without a validator call. Each heuristic measures one
+ * property with sharp and compares it with a conservative threshold, so only
+ * obvious failures are caught; borderline photos are left to the model.
+ *
+ * Large blown-out or crushed-black areas are also located, so the studio can
+ * point at them on the photo.
+ *
+ * - runPhotoHeuristics - Checks file integrity, resolution, aspect ratio, exposure and sharpness.
+ * - PHOTO_HEURISTIC_IDS - The ids of the local checks, in the order they run.
+ * - PhotoHeuristicCheck - The result of one local check, with a suggestion when it fails.
+ * - PhotoAnnotation - A labelled area of the photo, in normalised coordinates.
+ * - PhotoHeuristicsResult - All local check results and annotations, plus the normalised photo when it could be read.
+ */
+
+import sharp from 'sharp';
+import {AiFlowError} from '@/ai/errors';
+import {decodeImageDataUri, isDataUri} from '@/ai/images/data-uri';
+import {loadImage} from '@/ai/images/load-image';
+import {MAX_USER_PHOTO_BYTES, normaliseUserPhoto, type NormalisedPhoto} from '@/ai/images/normalize-user-photo';
+import type {NormalisedBox} from '@/ai/garment-regions';
+import {MAX_BRIGHTEN_GAIN, MAX_UPSCALE_FACTOR, type PhotoFixAction} from '@/ai/images/photo-fixes';
+
+export const PHOTO_HEURISTIC_IDS = ['file_integrity', 'resolution', 'aspect_ratio', 'exposure', 'sharpness'] as const;
+
+export type PhotoHeuristicId = (typeof PHOTO_HEURISTIC_IDS)[number];
+
+export interface PhotoHeuristicCheck {
+  id: PhotoHeuristicId;
+  /** How well the photo meets this check, in [0, 1]. */
+  score: number;
+  passed: boolean;
+  detail: string;
+  /** What the user should do about a failed check. */
+  suggestion?: string;
+  /** An automatic fix for a failed check, when the photo is close enough to correct. */
+  fix?: PhotoFixAction;
+}
+
+export interface PhotoAnnotation {
+  kind: 'overexposed' | 'underexposed';
+  label: string;
+  /** Position on the normalised photo, 0..1 on both axes. */
+  box: NormalisedBox;
+}
+
+export interface PhotoHeuristicsResult {
+  checks: PhotoHeuristicCheck[];
+  annotations: PhotoAnnotation[];
+  passed: boolean;
+  /** The normalised photo; missing when the file could not be read at all. */
+  photo?: NormalisedPhoto;
+}
+
+/** Shortest side, in pixels, below which detail is lost, and the size at which resolution scores 1. */
+const MIN_SHORT_SIDE = 512;
+const RECOMMENDED_SHORT_SIDE = 1024;
+/** Longest-to-shortest side ratio beyond which the photo is a strip or panorama rather than a portrait. */
+const MAX_ASPECT_RATIO = 2.5;
+/** Mean luma (0-255) outside which the photo is too dark or too bright to read. */
+const MIN_MEAN_LUMA = 35;
+const MAX_MEAN_LUMA = 225;
+/** Share of pixels crushed to black or clipped to white above which exposure fails. */
+const MAX_CLIPPED_RATIO = 0.5;
+const CLIP_LOW = 10;
+const CLIP_HIGH = 245;
+/** Mean luma a brighten fix aims for; photos darker than the gain can recover are not offered one. */
+const BRIGHTEN_TARGET_LUMA = 110;
+/** Width the photo is resized to before measuring sharpness, so the threshold is resolution-independent. */
+const SHARPNESS_ANALYSIS_WIDTH = 512;
+/** Laplacian variance below which the photo is treated as badly blurred, and the value at which sharpness scores 1. */
+const MIN_LAPLACIAN_VARIANCE = 15;
+const SHARP_LAPLACIAN_VARIANCE = 150;
+
+/** Longest side of the thumbnail the integrity check decodes the whole file into. */
+const INTEGRITY_DECODE_SIZE = 256;
+
+/** Width of the grid used to locate clipped areas. */
+const CLIPPED_AREA_GRID_WIDTH = 64;
+/** Share of the photo a clipped area must cover before it is annotated. */
+const MIN_CLIPPED_AREA_RATIO = 0.05;
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+interface PhotoSize {
+  width: number;
+  height: number;
+}
+
+function failedIntegrity(detail: string, suggestion: string): PhotoHeuristicCheck {
+  return {id: 'file_integrity', score: 0, passed: false, detail, suggestion};
+}
+
+async function checkFileIntegrity(
+  photoDataUri: string,
+  field: string
+): Promise<{check: PhotoHeuristicCheck; upright?: PhotoSize}> {
+  // Base64 holds 3 bytes per 4 characters; checked before decoding so the message can name the limit.
+  const byteLength = isDataUri(photoDataUri) ? Math.floor((photoDataUri.length - photoDataUri.indexOf(',') - 1) * 0.75) : 0;
+  if (byteLength > MAX_USER_PHOTO_BYTES) {
+    const megabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+    return {
+      check: failedIntegrity(
+        `The file is too large (about ${megabytes(byteLength)} MB; the limit is ${megabytes(MAX_USER_PHOTO_BYTES)} MB).`,
+        'Upload a smaller photo, e.g. one exported at a lower resolution or quality.'
+      ),
+    };
+  }
+  try {
+    // The same limit as normalisation, so a photo that passes here is never rejected there.
+    const {dataUri, width, height} = await loadImage(photoDataUri, {field, maxBytes: MAX_USER_PHOTO_BYTES});
+    // Decoding the whole file catches truncated or corrupt files that still have a readable header. It is
+    // decoded straight to a thumbnail, so the pixels held in memory stay small however large the upload.
+    const image = sharp(decodeImageDataUri(dataUri), {failOn: 'truncated'});
+    await image
+      .clone()
+      .resize(INTEGRITY_DECODE_SIZE, INTEGRITY_DECODE_SIZE, {fit: 'inside'})
+      .raw()
+      .toBuffer();
+    // The EXIF orientation is applied, as normalisation and `fixImage` do, so the size is the upright one.
+    const {orientation = 1} = await image.metadata();
+    return {
+      check: {id: 'file_integrity', score: 1, passed: true, detail: 'The file is a complete, readable image.'},
+      upright: orientation >= 5 ? {width: height, height: width} : {width, height},
+    };
+  } catch (error) {
+    const detail =
+      error instanceof AiFlowError ? error.message : 'The file is damaged or incomplete and could not be decoded.';
+    return {check: failedIntegrity(detail, 'Re-export or retake the photo and upload it as a JPG or PNG.')};
+  }
+}
+
+/** Measured on the uploaded size, upright, since normalisation downscales large photos. */
+function checkResolution(photo: PhotoSize): PhotoHeuristicCheck {
+  const shortSide = Math.min(photo.width, photo.height);
+  const passed = shortSide >= MIN_SHORT_SIDE;
+  return {
+    id: 'resolution',
+    score: clamp(shortSide / RECOMMENDED_SHORT_SIDE),
+    passed,
+    detail: `The photo is ${photo.width}x${photo.height} pixels.`,
+    ...(passed ? {} : {suggestion: `Use a photo at least ${MIN_SHORT_SIDE} pixels on its shortest side.`}),
+    ...(!passed && shortSide * MAX_UPSCALE_FACTOR >= MIN_SHORT_SIDE
+      ? {fix: {type: 'upscale', factor: Math.ceil((MIN_SHORT_SIDE / shortSide) * 10) / 10}}
+      : {}),
+  };
+}
+
+/**
+ * The centred box that trims the long side of the photo down to `maxRatio`. `photo` must be the upright
+ * size, since `fixImage` applies the box after the EXIF rotation.
+ */
+function centredCropBox(photo: PhotoSize, maxRatio: number): NormalisedBox {
+  if (photo.width > photo.height) {
+    const width = (photo.height * maxRatio) / photo.width;
+    return {left: (1 - width) / 2, top: 0, width, height: 1};
+  }
+  const height = (photo.width * maxRatio) / photo.height;
+  return {left: 0, top: (1 - height) / 2, width: 1, height};
+}
+
+function checkAspectRatio(photo: PhotoSize): PhotoHeuristicCheck {
+  const ratio = Math.max(photo.width, photo.height) / Math.min(photo.width, photo.height);
+  const passed = ratio <= MAX_ASPECT_RATIO;
+  return {
+    id: 'aspect_ratio',
+    score: clamp((MAX_ASPECT_RATIO * 1.5 - ratio) / (MAX_ASPECT_RATIO * 1.5 - 1)),
+    passed,
+    detail: `The photo's sides are in a ${ratio.toFixed(1)}:1 ratio.`,
+    ...(passed
+      ? {}
+      : {
+          suggestion: 'Crop the photo to a portrait or square frame around yourself.',
+          fix: {type: 'auto_crop', box: centredCropBox(photo, MAX_ASPECT_RATIO)},
+        }),
+  };
+}
+
+async function checkExposure(grey: sharp.Sharp): Promise<PhotoHeuristicCheck> {
+  const {data} = await grey.clone().raw().toBuffer({resolveWithObject: true});
+  let sum = 0;
+  let crushed = 0;
+  let clipped = 0;
+  for (const luma of data) {
+    sum += luma;
+    if (luma <= CLIP_LOW) crushed++;
+    if (luma >= CLIP_HIGH) clipped++;
+  }
+  const mean = sum / data.length;
+  const crushedRatio = crushed / data.length;
+  const clippedRatio = clipped / data.length;
+
+  const tooDark = mean < MIN_MEAN_LUMA || crushedRatio > MAX_CLIPPED_RATIO;
+  const tooBright = mean > MAX_MEAN_LUMA || clippedRatio > MAX_CLIPPED_RATIO;
+  // Scores 1 at mid-grey and falls to 0 at pure black or white.
+  const score = clamp(1 - Math.abs(mean - 128) / 128 - Math.max(crushedRatio, clippedRatio));
+  if (tooDark) {
+    return {
+      id: 'exposure',
+      score,
+      passed: false,
+      detail: `The photo is too dark (average brightness ${Math.round((mean / 255) * 100)}%).`,
+      suggestion: 'Take the photo in a brighter room or facing a window, and avoid strong backlight.',
+      ...(mean < BRIGHTEN_TARGET_LUMA && mean * MAX_BRIGHTEN_GAIN >= MIN_MEAN_LUMA
+        ? {fix: {type: 'brighten', gain: Math.min(MAX_BRIGHTEN_GAIN, BRIGHTEN_TARGET_LUMA / mean)}}
+        : {}),
+    };
+  }
+  if (tooBright) {
+    return {
+      id: 'exposure',
+      score,
+      passed: false,
+      detail: `The photo is overexposed (average brightness ${Math.round((mean / 255) * 100)}%).`,
+      suggestion: 'Move out of direct sunlight or turn off the flash, and retake the photo.',
+    };
+  }
+  return {id: 'exposure', score, passed: true, detail: 'The exposure is within a usable range.'};
+}
+
+async function checkSharpness(grey: sharp.Sharp): Promise<PhotoHeuristicCheck> {
+  const {data, info} = await grey
+    .clone()
+    .resize({width: SHARPNESS_ANALYSIS_WIDTH, withoutEnlargement: true})
+    .raw()
+    .toBuffer({resolveWithObject: true});
+  const {width, height} = info;
+
+  // Variance of the 4-neighbour Laplacian: low when edges are soft.
+  let sum = 0;
+  let sumOfSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const index = y * width + x;
+      const laplacian = data[index - 1] + data[index + 1] + data[index - width] + data[index + width] - 4 * data[index];
+      sum += laplacian;
+      sumOfSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  const variance = count > 0 ? sumOfSquares / count - (sum / count) ** 2 : 0;
+  const passed = variance >= MIN_LAPLACIAN_VARIANCE;
+  return {
+    id: 'sharpness',
+    score: clamp(variance / SHARP_LAPLACIAN_VARIANCE),
+    passed,
+    detail: passed ? 'The photo is in focus.' : 'The photo is badly blurred.',
+    ...(passed ? {} : {suggestion: 'Hold the camera steady, tap to focus on yourself and retake the photo.'}),
+  };
+}
+
+/** Bounding box of the largest 4-connected group of grid cells matching `isClipped`, if it is big enough. */
+function largestClippedArea(
+  data: Buffer,
+  width: number,
+  height: number,
+  isClipped: (luma: number) => boolean
+): NormalisedBox | undefined {
+  const visited = new Uint8Array(width * height);
+  let best: {cells: number; minX: number; minY: number; maxX: number; maxY: number} | undefined;
+  for (let start = 0; start < data.length; start++) {
+    if (visited[start] || !isClipped(data[start])) continue;
+    const area = {cells: 0, minX: width, minY: height, maxX: 0, maxY: 0};
+    const stack = [start];
+    visited[start] = 1;
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const x = index % width;
+      const y = Math.floor(index / width);
+      area.cells++;
+      area.minX = Math.min(area.minX, x);
+      area.maxX = Math.max(area.maxX, x);
+      area.minY = Math.min(area.minY, y);
+      area.maxY = Math.max(area.maxY, y);
+      const neighbours = [x > 0 ? index - 1 : -1, x < width - 1 ? index + 1 : -1, index - width, index + width];
+      for (const next of neighbours) {
+        if (next >= 0 && next < data.length && !visited[next] && isClipped(data[next])) {
+          visited[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+    if (!best || area.cells > best.cells) {
+      best = area;
+    }
+  }
+  if (!best || best.cells / data.length < MIN_CLIPPED_AREA_RATIO) {
+    return undefined;
+  }
+  return {
+    left: best.minX / width,
+    top: best.minY / height,
+    width: (best.maxX - best.minX + 1) / width,
+    height: (best.maxY - best.minY + 1) / height,
+  };
+}
+
+async function findClippedAreas(grey: sharp.Sharp): Promise<PhotoAnnotation[]> {
+  const {data, info} = await grey
+    .clone()
+    .resize({width: CLIPPED_AREA_GRID_WIDTH})
+    .raw()
+    .toBuffer({resolveWithObject: true});
+  const annotations: PhotoAnnotation[] = [];
+  const overexposed = largestClippedArea(data, info.width, info.height, luma => luma >= CLIP_HIGH);
+  if (overexposed) {
+    annotations.push({kind: 'overexposed', label: 'Overexposed area', box: overexposed});
+  }
+  const underexposed = largestClippedArea(data, info.width, info.height, luma => luma <= CLIP_LOW);
+  if (underexposed) {
+    annotations.push({kind: 'underexposed', label: 'Too dark to see', box: underexposed});
+  }
+  return annotations;
+}
+
+export async function runPhotoHeuristics(photoDataUri: string, field = 'userImage'): Promise<PhotoHeuristicsResult> {
+  const {check: integrity, upright} = await checkFileIntegrity(photoDataUri, field);
+  if (!upright) {
+    return {checks: [integrity], annotations: [], passed: false};
+  }
+
+  let photo: NormalisedPhoto;
+  try {
+    photo = await normaliseUserPhoto(photoDataUri, field);
+  } catch (error) {
+    if (!(error instanceof AiFlowError)) {
+      throw error;
+    }
+    return {
+      checks: [failedIntegrity(error.message, 'Upload a still photo as a JPG or PNG.')],
+      annotations: [],
+      passed: false,
+    };
+  }
+  const grey = sharp(decodeImageDataUri(photo.dataUri)).greyscale();
+  const checks = [
+    integrity,
+    checkResolution(upright),
+    // The crop box is relative to the normalised photo, so it is computed from that photo's size.
+    checkAspectRatio(photo),
+    await checkExposure(grey),
+    await checkSharpness(grey),
+  ];
+  const annotations = await findClippedAreas(grey);
+  return {checks, annotations, passed: checks.every(check => check.passed), photo};
+}
@@ -0,0 +1,128 @@
+/**
+ * @fileOverview Post-generation check of the "lock the user canvas" rule.
+ *
+ * The generated image is downscaled to a fixed analysis width, aligned to the
+ * user image by searching small translations, and diffed pixel by pixel. The
+ * score is the share of pixels *outside* the estimated garment region that
+ * stayed the same, so 1 means the canvas was left untouched.
+ *
+ * - checkCanvasIntegrity - Scores how well a generated image preserved the user canvas.
+ * - CANVAS_INTEGRITY_MIN_SCORE - Candidates scoring below this are rejected.
+ */
+
+import sharp from 'sharp';
+import {decodeImageDataUri} from '@/ai/images/data-uri';
+import {GARMENT_REGION_BOXES, type NormalisedBox} from '@/ai/garment-regions';
+import type {GarmentRegion} from '@/lib/products';
+
+export interface CanvasIntegrityResult {
+  /** Share of pixels outside the garment region that are unchanged, in [0, 1]. */
+  score: number;
+  /** Share of pixels outside the garment region that changed. */
+  changedOutsideRatio: number;
+  /** Share of pixels inside the garment region that changed; near 0 suggests the item was never applied. */
+  changedInsideRatio: number;
+  /** Translation, in analysis pixels, that best aligned the output to the input. */
+  offset: {x: number; y: number};
+  passed: boolean;
+}
+
+export const CANVAS_INTEGRITY_MIN_SCORE = Number(process.env.CANVAS_INTEGRITY_MIN_SCORE ?? 0.9);
+
+const ANALYSIS_WIDTH = 256;
+/** Largest shift, in analysis pixels, tried when aligning the output to the input. */
+const MAX_ALIGNMENT_SHIFT = 4;
+/** Per-channel difference (0-255) above which a pixel counts as changed. */
+const PIXEL_CHANGE_THRESHOLD = 32;
+/** Slack added around the estimated garment box, since the estimate is coarse. */
+const REGION_MARGIN = 0.05;
+
+interface RawImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+async function toAnalysisPixels(dataUri: string, width: number, height?: number): Promise<RawImage> {
+  const {data, info} = await sharp(decodeImageDataUri(dataUri))
+    .rotate()
+    .resize(width, height, {fit: 'fill'})
+    .removeAlpha()
+    .raw()
+    .toBuffer({resolveWithObject: true});
+  return {data, width: info.width, height: info.height};
+}
+
+function expandBox(box: NormalisedBox, margin: number): NormalisedBox {
+  const left = Math.max(0, box.left - margin);
+  const top = Math.max(0, box.top - margin);
+  return {
+    left,
+    top,
+    width: Math.min(1, box.left + box.width + margin) - left,
+    height: Math.min(1, box.top + box.height + margin) - top,
+  };
+}
+
+function isInside(box: NormalisedBox, x: number, y: number, width: number, height: number): boolean {
+  const nx = x / width;
+  const ny = y / height;
+  return nx >= box.left && nx <= box.left + box.width && ny >= box.top && ny <= box.top + box.height;
+}
+
+function compare(input: RawImage, output: RawImage, dx: number, dy: number, region: NormalisedBox) {
+  let changedOutside = 0;
+  let totalOutside = 0;
+  let changedInside = 0;
+  let totalInside = 0;
+  for (let y = 0; y < input.height; y++) {
+    const oy = y + dy;
+    if (oy < 0 || oy >= output.height) continue;
+    for (let x = 0; x < input.width; x++) {
+      const ox = x + dx;
+      if (ox < 0 || ox >= output.width) continue;
+      const i = (y * input.width + x) * 3;
+      const o = (oy * output.width + ox) * 3;
+      const changed =
+        Math.abs(input.data[i] - output.data[o]) > PIXEL_CHANGE_THRESHOLD ||
+        Math.abs(input.data[i + 1] - output.data[o + 1]) > PIXEL_CHANGE_THRESHOLD ||
+        Math.abs(input.data[i + 2] - output.data[o + 2]) > PIXEL_CHANGE_THRESHOLD;
+      if (isInside(region, x, y, input.width, input.height)) {
+        totalInside++;
+        if (changed) changedInside++;
+      } else {
+        totalOutside++;
+        if (changed) changedOutside++;
+      }
+    }
+  }
+  return {
+    changedOutsideRatio: totalOutside > 0 ? changedOutside / totalOutside : 0,
+    changedInsideRatio: totalInside > 0 ? changedInside / totalInside : 0,
+  };
+}
+
+export async function checkCanvasIntegrity(
+  userImage: string,
+  generatedImage: string,
+  garmentRegion: GarmentRegion,
+  minScore: number = CANVAS_INTEGRITY_MIN_SCORE
+): Promise<CanvasIntegrityResult> {
+  const input = await toAnalysisPixels(userImage, ANALYSIS_WIDTH);
+  const output = await toAnalysisPixels(generatedImage, input.width, input.height);
+  const region = expandBox(GARMENT_REGION_BOXES[garmentRegion], REGION_MARGIN);
+
+  let best = {...compare(input, output, 0, 0, region), offset: {x: 0, y: 0}};
+  for (let dy = -MAX_ALIGNMENT_SHIFT; dy <= MAX_ALIGNMENT_SHIFT; dy++) {
+    for (let dx = -MAX_ALIGNMENT_SHIFT; dx <= MAX_ALIGNMENT_SHIFT; dx++) {
+      if (dx === 0 && dy === 0) continue;
+      const result = compare(input, output, dx, dy, region);
+      if (result.changedOutsideRatio < best.changedOutsideRatio) {
+        best = {...result, offset: {x: dx, y: dy}};
+      }
+    }
+  }
+
+  const score = 1 - best.changedOutsideRatio;
+  return {...best, score, passed: score >= minScore};
+}
@@ -0,0 +1,333 @@
+/**
+ * @fileOverview Measures, and optionally corrects, how faithfully a try-on reproduced the item's colours.
+ *
+ * The dominant palette of the item (its pixels after the uniform background is
+ * removed) and of the generated garment (the pixels inside the expanded
+ * garment region that changed from the user photo) are extracted with k-means
+ * in CIE Lab. Each item colour is matched to the closest garment colour by
+ * CIEDE2000, and the share-weighted mean of those distances is the garment's
+ * ΔE; about 2 is a just noticeable difference. Results above
+ * `COLOUR_FIDELITY_MAX_DELTA_E` (default 10) are outside tolerance.
+ *
+ * Correction shifts every garment pixel by the Lab offset between its garment
+ * palette colour and the matching item colour, so shading and folds survive
+ * while the shade moves back to the product's (e.g. a cream hoodie back to
+ * white).
+ *
+ * - extractItemPalette - The dominant colours of an item image.
+ * - measureColourFidelity - Compares the item palette with the generated garment region.
+ * - correctGarmentColour - Shifts the garment region's colours towards the item palette.
+ * - COLOUR_FIDELITY_MAX_DELTA_E - Garments further than this from the item are outside tolerance.
+ * - ColourPalette - Dominant colours with their share of the pixels.
+ * - ColourFidelityResult - The palettes, their distance and a [0, 1] fidelity score.
+ */
+
+import sharp from 'sharp';
+import {decodeImageDataUri, toImageDataUri} from '@/ai/images/data-uri';
+import {loadImage} from '@/ai/images/load-image';
+import {GARMENT_REGION_BOXES} from '@/ai/garment-regions';
+import {removeUniformBackground} from '@/ai/preprocessing/garment-cutout';
+import type {GarmentRegion} from '@/lib/products';
+
+type Rgb = [number, number, number];
+type Lab = [number, number, number];
+
+export interface PaletteColour {
+  lab: Lab;
+  /** The colour as `#rrggbb`, for display. */
+  hex: string;
+  /** Share of the sampled pixels in this cluster, in [0, 1]; a palette's shares sum to 1. */
+  share: number;
+}
+
+/** Dominant colours, most common first. */
+export type ColourPalette = PaletteColour[];
+
+export interface ColourFidelityResult {
+  /** Share-weighted CIEDE2000 distance from each item colour to its closest garment colour. */
+  deltaE: number;
+  /** 1 for identical palettes, falling linearly to 0 at `ZERO_SCORE_DELTA_E`. */
+  score: number;
+  withinTolerance: boolean;
+  /** Share of the garment region that changed, i.e. how much garment the comparison is based on. */
+  garmentCoverage: number;
+  itemPalette: ColourPalette;
+  garmentPalette: ColourPalette;
+}
+
+export const COLOUR_FIDELITY_MAX_DELTA_E = Number(process.env.COLOUR_FIDELITY_MAX_DELTA_E ?? 10);
+
+const ANALYSIS_WIDTH = 256;
+const ITEM_ANALYSIS_WIDTH = 128;
+/** Per-channel difference (0-255) above which a pixel counts as part of the new garment. */
+const PIXEL_CHANGE_THRESHOLD = 32;
+/** Below this share of changed pixels in the region, there is too little garment to measure. */
+const MIN_GARMENT_COVERAGE = 0.01;
+const ZERO_SCORE_DELTA_E = 30;
+const REGION_MARGIN = 0.05;
+const PALETTE_SIZE = 3;
+const KMEANS_ITERATIONS = 10;
+const MAX_KMEANS_SAMPLES = 4096;
+/** Clusters smaller than this share are dropped from the palette as noise. */
+const MIN_CLUSTER_SHARE = 0.05;
+
+function srgbToLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+function linearToSrgb(value: number): number {
+  const c = value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055;
+  return Math.round(Math.min(1, Math.max(0, c)) * 255);
+}
+
+function rgbToLab([r, g, b]: Rgb): Lab {
+  const [lr, lg, lb] = [r, g, b].map(srgbToLinear);
+  // sRGB to XYZ (D65), normalised by the reference white.
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  const [fx, fy, fz] = [x, y, z].map(f);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+function labToRgb([l, a, b]: Lab): Rgb {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const inverse = (t: number) => (t ** 3 > 216 / 24389 ? t ** 3 : (116 * t - 16) / (24389 / 27));
+  const x = inverse(fx) * 0.95047;
+  const y = inverse(fy);
+  const z = inverse(fz) * 1.08883;
+  return [
+    linearToSrgb(x * 3.2406 - y * 1.5372 - z * 0.4986),
+    linearToSrgb(-x * 0.9689 + y * 1.8758 + z * 0.0415),
+    linearToSrgb(x * 0.0557 - y * 0.204 + z * 1.057),
+  ];
+}
+
+function toHex(lab: Lab): string {
+  return `#${labToRgb(lab).map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/** CIEDE2000 colour difference (Sharma, Wu and Dalal's formulation). */
+function deltaE2000([l1, a1, b1]: Lab, [l2, a2, b2]: Lab): number {
+  const rad = Math.PI / 180;
+  const c1 = Math.hypot(a1, b1);
+  const c2 = Math.hypot(a2, b2);
+  const cMean7 = ((c1 + c2) / 2) ** 7;
+  const g = 0.5 * (1 - Math.sqrt(cMean7 / (cMean7 + 25 ** 7)));
+  const a1p = a1 * (1 + g);
+  const a2p = a2 * (1 + g);
+  const c1p = Math.hypot(a1p, b1);
+  const c2p = Math.hypot(a2p, b2);
+  const hue = (b: number, a: number) => (b === 0 && a === 0 ? 0 : (Math.atan2(b, a) / rad + 360) % 360);
+  const h1p = hue(b1, a1p);
+  const h2p = hue(b2, a2p);
+
+  const dLp = l2 - l1;
+  const dCp = c2p - c1p;
+  let dhp = 0;
+  if (c1p * c2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin((dhp / 2) * rad);
+
+  const lMean = (l1 + l2) / 2;
+  const cMeanP = (c1p + c2p) / 2;
+  let hMeanP = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hMeanP /= 2;
+    else hMeanP = h1p + h2p < 360 ? (h1p + h2p + 360) / 2 : (h1p + h2p - 360) / 2;
+  }
+  const t =
+    1 -
+    0.17 * Math.cos((hMeanP - 30) * rad) +
+    0.24 * Math.cos(2 * hMeanP * rad) +
+    0.32 * Math.cos((3 * hMeanP + 6) * rad) -
+    0.2 * Math.cos((4 * hMeanP - 63) * rad);
+  const sL = 1 + (0.015 * (lMean - 50) ** 2) / Math.sqrt(20 + (lMean - 50) ** 2);
+  const sC = 1 + 0.045 * cMeanP;
+  const sH = 1 + 0.015 * cMeanP * t;
+  const cMeanP7 = cMeanP ** 7;
+  const rT = -2 * Math.sqrt(cMeanP7 / (cMeanP7 + 25 ** 7)) * Math.sin(60 * Math.exp(-(((hMeanP - 275) / 25) ** 2)) * rad);
+  return Math.sqrt((dLp / sL) ** 2 + (dCp / sC) ** 2 + (dHp / sH) ** 2 + rT * (dCp / sC) * (dHp / sH));
+}
+
+function labDistanceSquared(a: Lab, b: Lab): number {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+}
+
+function nearestIndex(colour: Lab, centres: Lab[]): number {
+  let best = 0;
+  for (let i = 1; i < centres.length; i++) {
+    if (labDistanceSquared(colour, centres[i]) < labDistanceSquared(colour, centres[best])) best = i;
+  }
+  return best;
+}
+
+function meanLab(pixels: Lab[]): Lab {
+  return [0, 1, 2].map(c => pixels.reduce((sum, pixel) => sum + pixel[c], 0) / pixels.length) as Lab;
+}
+
+/** k-means in Lab with deterministic farthest-point seeding, so the same pixels always give the same palette. */
+function extractPalette(pixels: Lab[]): ColourPalette {
+  const step = Math.max(1, Math.floor(pixels.length / MAX_KMEANS_SAMPLES));
+  const samples = pixels.filter((_, index) => index % step === 0);
+  const centres: Lab[] = [samples[nearestIndex(meanLab(samples), samples)]];
+  while (centres.length < Math.min(PALETTE_SIZE, samples.length)) {
+    let farthest = samples[0];
+    let farthestDistance = 0;
+    for (const sample of samples) {
+      const distance = Math.min(...centres.map(centre => labDistanceSquared(sample, centre)));
+      if (distance > farthestDistance) {
+        farthest = sample;
+        farthestDistance = distance;
+      }
+    }
+    if (farthestDistance === 0) break;
+    centres.push(farthest);
+  }
+
+  let assignments: number[] = [];
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    assignments = samples.map(sample => nearestIndex(sample, centres));
+    for (let k = 0; k < centres.length; k++) {
+      const members = samples.filter((_, index) => assignments[index] === k);
+      if (members.length > 0) {
+        centres[k] = meanLab(members);
+      }
+    }
+  }
+
+  const clusters = centres.map((lab, k) => ({lab, share: assignments.filter(a => a === k).length / samples.length}));
+  const kept = clusters.filter(cluster => cluster.share >= MIN_CLUSTER_SHARE);
+  const keptShare = kept.reduce((sum, cluster) => sum + cluster.share, 0);
+  return kept
+    .map(cluster => ({lab: cluster.lab, hex: toHex(cluster.lab), share: cluster.share / keptShare}))
+    .sort((a, b) => b.share - a.share);
+}
+
+export async function extractItemPalette(itemImage: string): Promise<ColourPalette | undefined> {
+  const {dataUri} = await loadImage(itemImage, {field: 'itemImage'});
+  const small = await sharp(decodeImageDataUri(dataUri)).resize({width: ITEM_ANALYSIS_WIDTH}).png().toBuffer();
+  const {data} = await sharp(await removeUniformBackground(small)).raw().toBuffer({resolveWithObject: true});
+  const pixels: Lab[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] >= 128) pixels.push(rgbToLab([data[i], data[i + 1], data[i + 2]]));
+  }
+  return pixels.length > 0 ? extractPalette(pixels) : undefined;
+}
+
+interface GarmentPixels {
+  /** The generated image as raw RGB. */
+  data: Buffer;
+  width: number;
+  height: number;
+  /** Pixel indices of the garment. */
+  garment: number[];
+  coverage: number;
+}
+
+/** Finds the generated garment: the pixels in the expanded region box that changed from the user photo. */
+async function findGarmentPixels(
+  userImage: string,
+  generatedImage: string,
+  region: GarmentRegion,
+  analysisWidth?: number
+): Promise<GarmentPixels> {
+  const generated = await sharp(decodeImageDataUri(generatedImage))
+    .rotate()
+    .resize(analysisWidth ? {width: analysisWidth} : undefined)
+    .removeAlpha()
+    .raw()
+    .toBuffer({resolveWithObject: true});
+  const {width, height} = generated.info;
+  const user = await sharp(decodeImageDataUri(userImage))
+    .rotate()
+    .resize(width, height, {fit: 'fill'})
+    .removeAlpha()
+    .raw()
+    .toBuffer();
+
+  const box = GARMENT_REGION_BOXES[region];
+  const left = Math.max(0, Math.floor((box.left - REGION_MARGIN) * width));
+  const right = Math.min(width, Math.ceil((box.left + box.width + REGION_MARGIN) * width));
+  const top = Math.max(0, Math.floor((box.top - REGION_MARGIN) * height));
+  const bottom = Math.min(height, Math.ceil((box.top + box.height + REGION_MARGIN) * height));
+
+  const garment: number[] = [];
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const index = y * width + x;
+      const i = index * 3;
+      if ([0, 1, 2].some(c => Math.abs(user[i + c] - generated.data[i + c]) > PIXEL_CHANGE_THRESHOLD)) {
+        garment.push(index);
+      }
+    }
+  }
+  const total = (right - left) * (bottom - top);
+  return {data: generated.data, width, height, garment, coverage: total > 0 ? garment.length / total : 0};
+}
+
+function paletteDeltaE(itemPalette: ColourPalette, garmentPalette: ColourPalette): number {
+  return itemPalette.reduce(
+    (sum, colour) => sum + colour.share * Math.min(...garmentPalette.map(garment => deltaE2000(colour.lab, garment.lab))),
+    0
+  );
+}
+
+export async function measureColourFidelity(
+  userImage: string,
+  generatedImage: string,
+  itemPalette: ColourPalette,
+  region: GarmentRegion
+): Promise<ColourFidelityResult | undefined> {
+  const {data, garment, coverage} = await findGarmentPixels(userImage, generatedImage, region, ANALYSIS_WIDTH);
+  if (coverage < MIN_GARMENT_COVERAGE) {
+    return undefined;
+  }
+  const garmentPalette = extractPalette(
+    garment.map(index => rgbToLab([data[index * 3], data[index * 3 + 1], data[index * 3 + 2]]))
+  );
+  const deltaE = paletteDeltaE(itemPalette, garmentPalette);
+  return {
+    deltaE,
+    score: Math.max(0, 1 - deltaE / ZERO_SCORE_DELTA_E),
+    withinTolerance: deltaE <= COLOUR_FIDELITY_MAX_DELTA_E,
+    garmentCoverage: coverage,
+    itemPalette,
+    garmentPalette,
+  };
+}
+
+export async function correctGarmentColour(
+  userImage: string,
+  generatedImage: string,
+  fidelity: ColourFidelityResult,
+  region: GarmentRegion
+): Promise<string> {
+  const {data, width, height, garment} = await findGarmentPixels(userImage, generatedImage, region);
+  // Each garment colour moves to the item colour closest to it.
+  const offsets = fidelity.garmentPalette.map(colour => {
+    const target = fidelity.itemPalette.reduce((best, item) =>
+      deltaE2000(colour.lab, item.lab) < deltaE2000(colour.lab, best.lab) ? item : best
+    );
+    return [0, 1, 2].map(c => target.lab[c] - colour.lab[c]) as Lab;
+  });
+  const centres = fidelity.garmentPalette.map(colour => colour.lab);
+  for (const index of garment) {
+    const i = index * 3;
+    const lab = rgbToLab([data[i], data[i + 1], data[i + 2]]);
+    const offset = offsets[nearestIndex(lab, centres)];
+    const [r, g, b] = labToRgb([lab[0] + offset[0], lab[1] + offset[1], lab[2] + offset[2]]);
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+  const corrected = await sharp(data, {raw: {width, height, channels: 3}}).png().toBuffer();
+  return toImageDataUri('image/png', corrected);
+}
@@ -0,0 +1,218 @@
+/**
+ * @fileOverview Checks that a generated try-on kept the user's face.
+ *
+ * A local face model finds the faces in the user photo and in the output and
+ * turns each into a descriptor. The default analyser is face-api's SSD
+ * MobileNet detector with its 68-point landmark alignment and ResNet-34 face
+ * recognition network (128-d descriptors), run on the TensorFlow.js WASM
+ * backend with the weights shipped in `@vladmandic/face-api`, so nothing is
+ * downloaded at runtime. The user's face is the largest one in their photo;
+ * in the output, the face nearest that position is compared. The identity
+ * score is 1 minus the Euclidean distance of the two descriptors, clamped to
+ * [0, 1]; results below `IDENTITY_MIN_SIMILARITY` (default 0.6) fail, as does
+ * an output where the face can no longer be found. When no face can be found
+ * in the user photo there is nothing to compare and the check passes without
+ * a similarity.
+ *
+ * The threshold is calibrated with `npm run eval:identity` (see
+ * `evals/calibrate-identity.ts`). The golden eval photos are faceless
+ * figures, so golden runs report no identity similarity.
+ *
+ * Analysers are pluggable: another model can be registered with
+ * `registerFaceAnalyser` and selected with `FACE_ANALYSER`. FACE_MODEL_DIR
+ * overrides where the default analyser's weights are read from.
+ *
+ * - prepareIdentityReference - Finds and describes the face in the user photo, once per request.
+ * - checkFaceIdentity - Compares the face in a generated image with the reference.
+ * - getFaceAnalyser - The analyser selected by `FACE_ANALYSER`.
+ * - registerFaceAnalyser - Adds a face analyser that `FACE_ANALYSER` can select.
+ * - IDENTITY_MIN_SIMILARITY - Generated faces less similar than this fail the check.
+ * - FaceAnalyser - Finds and describes faces, and compares descriptors.
+ * - DetectedFace - One face found by an analyser.
+ * - IdentityReference - The user's face box and descriptor.
+ * - IdentityCheckResult - Whether the face was found and how similar it is.
+ */
+
+import path from 'path';
+import sharp from 'sharp';
+import {decodeImageDataUri} from '@/ai/images/data-uri';
+import type {NormalisedBox} from '@/ai/garment-regions';
+
+export interface DetectedFace {
+  /** Position on the upright image, 0..1 on both axes. */
+  box: NormalisedBox;
+  /** Detector confidence, in [0, 1]. */
+  confidence: number;
+  descriptor: number[];
+}
+
+export interface FaceAnalyser {
+  id: string;
+  /** Finds and describes every face in an image, applying its EXIF orientation first. */
+  analyse(image: Buffer): Promise<DetectedFace[]>;
+  /** How alike two descriptors from this analyser are, in [0, 1]. */
+  similarity(a: number[], b: number[]): number;
+}
+
+export interface IdentityReference {
+  /** The face in the user photo, 0..1 on both axes; undefined when none was found. */
+  faceBox?: NormalisedBox;
+  descriptor?: number[];
+  analyser: string;
+}
+
+export interface IdentityCheckResult {
+  /** Whether a face was found in the user photo, i.e. whether the check could run. */
+  faceDetected: boolean;
+  /** How alike the input and output faces are, in [0, 1]; 0 when the face is gone from the output. */
+  similarity?: number;
+  passed: boolean;
+  /** The analyser that produced the similarity. */
+  analyser: string;
+}
+
+/**
+ * Calibrated with `npm run eval:identity` on the face-api sample photos: the
+ * same face after a try-on-like edit scores at least 0.64, different people at
+ * most 0.56 and a blurred face at most 0.48.
+ */
+export const IDENTITY_MIN_SIMILARITY = Number(process.env.IDENTITY_MIN_SIMILARITY ?? 0.6);
+
+const FACE_MODEL_DIR = path.resolve(
+  process.env.FACE_MODEL_DIR ?? path.join(process.cwd(), 'node_modules', '@vladmandic', 'face-api', 'model')
+);
+const TFJS_WASM_DIR = path.join(process.cwd(), 'node_modules', '@tensorflow', 'tfjs-backend-wasm', 'dist');
+/**
+ * Longest side images are shrunk to before detection, bounding the decoded pixels and the tensor per
+ * image. SSD MobileNet resizes to 512 internally; the extra room keeps faces in full-body photos large
+ * enough for the recognition network.
+ */
+const FACE_ANALYSIS_MAX_SIZE = 1024;
+/** Detections below this confidence are ignored. */
+const FACE_MIN_CONFIDENCE = 0.5;
+
+type FaceApi = typeof import('@vladmandic/face-api');
+
+const analysers = new Map<string, FaceAnalyser>();
+let faceApi: Promise<FaceApi> | undefined;
+
+export function registerFaceAnalyser(analyser: FaceAnalyser): void {
+  if (analysers.has(analyser.id)) {
+    throw new Error(`A face analyser with id "${analyser.id}" is already registered.`);
+  }
+  analysers.set(analyser.id, analyser);
+}
+
+export function getFaceAnalyser(): FaceAnalyser {
+  const id = process.env.FACE_ANALYSER ?? faceRecognitionNetAnalyser.id;
+  const analyser = analysers.get(id);
+  if (!analyser) {
+    throw new Error(`No face analyser is registered with id "${id}".`);
+  }
+  return analyser;
+}
+
+/** Loads TensorFlow.js and the three networks once; imported lazily so flows that never check a face skip it. */
+function loadFaceApi(): Promise<FaceApi> {
+  faceApi ??= (async () => {
+    // face-api requires the same `@tensorflow/tfjs` instance, so the backend set here is the one it runs on.
+    const [faceapi, tf, {setWasmPaths}] = await Promise.all([
+      import('@vladmandic/face-api/dist/face-api.node-wasm.js'),
+      import('@tensorflow/tfjs'),
+      import('@tensorflow/tfjs-backend-wasm'),
+    ]);
+    setWasmPaths(`${TFJS_WASM_DIR}${path.sep}`);
+    await tf.setBackend('wasm');
+    await tf.ready();
+    await Promise.all([
+      faceapi.nets.ssdMobilenetv1.loadFromDisk(FACE_MODEL_DIR),
+      faceapi.nets.faceLandmark68Net.loadFromDisk(FACE_MODEL_DIR),
+      faceapi.nets.faceRecognitionNet.loadFromDisk(FACE_MODEL_DIR),
+    ]);
+    return faceapi;
+  })().catch(error => {
+    // Let the next check retry rather than caching the failure for the life of the server.
+    faceApi = undefined;
+    throw error;
+  });
+  return faceApi;
+}
+
+export const faceRecognitionNetAnalyser: FaceAnalyser = {
+  id: 'face-recognition-net',
+  async analyse(image) {
+    const faceapi = await loadFaceApi();
+    const {data, info} = await sharp(image)
+      .rotate()
+      .resize(FACE_ANALYSIS_MAX_SIZE, FACE_ANALYSIS_MAX_SIZE, {fit: 'inside', withoutEnlargement: true})
+      .removeAlpha()
+      .raw()
+      .toBuffer({resolveWithObject: true});
+    const tensor = faceapi.tf.tensor3d(data, [info.height, info.width, 3], 'int32');
+    try {
+      const faces = await faceapi
+        .detectAllFaces(tensor, new faceapi.SsdMobilenetv1Options({minConfidence: FACE_MIN_CONFIDENCE}))
+        .withFaceLandmarks()
+        .withFaceDescriptors();
+      return faces.map(({detection, descriptor}) => ({
+        box: {
+          left: detection.box.x / info.width,
+          top: detection.box.y / info.height,
+          width: detection.box.width / info.width,
+          height: detection.box.height / info.height,
+        },
+        confidence: detection.score,
+        descriptor: Array.from(descriptor),
+      }));
+    } finally {
+      tensor.dispose();
+    }
+  },
+  similarity(a, b) {
+    // Descriptors are not unit length, so the distance is not bounded by 1; clamp it into a score.
+    let sumOfSquares = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      sumOfSquares += (a[i] - b[i]) ** 2;
+    }
+    return Math.min(1, Math.max(0, 1 - Math.sqrt(sumOfSquares)));
+  },
+};
+
+registerFaceAnalyser(faceRecognitionNetAnalyser);
+
+function boxArea(box: NormalisedBox): number {
+  return box.width * box.height;
+}
+
+function centreDistance(a: NormalisedBox, b: NormalisedBox): number {
+  return Math.hypot(a.left + a.width / 2 - (b.left + b.width / 2), a.top + a.height / 2 - (b.top + b.height / 2));
+}
+
+export async function prepareIdentityReference(userImage: string): Promise<IdentityReference> {
+  const analyser = getFaceAnalyser();
+  const faces = await analyser.analyse(decodeImageDataUri(userImage));
+  if (faces.length === 0) {
+    return {analyser: analyser.id};
+  }
+  // The user is the largest face; anyone else is further from the camera.
+  const face = faces.reduce((largest, next) => (boxArea(next.box) > boxArea(largest.box) ? next : largest));
+  return {faceBox: face.box, descriptor: face.descriptor, analyser: analyser.id};
+}
+
+export async function checkFaceIdentity(
+  reference: IdentityReference,
+  generatedImage: string,
+  minSimilarity: number = IDENTITY_MIN_SIMILARITY
+): Promise<IdentityCheckResult> {
+  const {faceBox, descriptor} = reference;
+  if (!faceBox || !descriptor) {
+    return {faceDetected: false, passed: true, analyser: reference.analyser};
+  }
+  const analyser = getFaceAnalyser();
+  // The canvas-integrity check keeps the face where it was, so the match is the face nearest its old position.
+  const match = (await analyser.analyse(decodeImageDataUri(generatedImage)))
+    .filter(face => centreDistance(face.box, faceBox) <= faceBox.width)
+    .sort((a, b) => centreDistance(a.box, faceBox) - centreDistance(b.box, faceBox))[0];
+  const similarity = match ? analyser.similarity(descriptor, match.descriptor) : 0;
+  return {faceDetected: true, similarity, passed: similarity >= minSimilarity, analyser: analyser.id};
+}
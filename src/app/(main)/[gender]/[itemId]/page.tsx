@@ -1,6 +1,7 @@
 
 import { getProductById, type Product } from '@/lib/products';
 import { TryOnClient } from '@/components/TryOnClient';
+import { getModelManifest } from '@/ai/models';
 import { notFound } from 'next/navigation';
 
 // Define TryOnPageProps here
@@ -32,5 +33,5 @@ export default async function TryOnPage({ params }: TryOnPageProps) {
   }
 
   // Product is guaranteed to exist here
-  return <TryOnClient params={params} product={product} />;
+  return <TryOnClient params={params} product={product} models={getModelManifest()} />;
 }
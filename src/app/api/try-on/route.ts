@@ -0,0 +1,11 @@
+/**
+ * Streaming endpoint for the try-on studio. Accepts a `GenerateAiTryOnInput`
+ * and, when requested with `Accept: text/event-stream`, streams
+ * `TryOnProgressEvent`s before the final `AiResult`. Call it with `streamFlow`
+ * from `@genkit-ai/next/client`.
+ */
+
+import {appRoute} from '@genkit-ai/next';
+import {generateAiTryOnStreamingFlow} from '@/ai/flows/try-on-flow';
+
+export const POST = appRoute(generateAiTryOnStreamingFlow);
@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { getRecoveryAction, type AiError } from "@/ai/errors";
+import { AlertCircle, Clock, RefreshCw, Repeat, Upload } from "lucide-react";
+
+const errorTitles: Record<AiError['kind'], string> = {
+  safety_blocked: 'Blocked by Safety Filters',
+  no_image_returned: 'No Image Was Returned',
+  rate_limited: 'Too Many Requests',
+  quota_exceeded: 'Usage Limit Reached',
+  budget_exceeded: 'Try Again Later',
+  invalid_input: 'Invalid Image',
+  unsupported_model: 'Model Not Supported',
+  upstream_timeout: 'The AI Service Timed Out',
+  integrity_check_failed: 'Your Photo Was Altered',
+  unknown: 'Something Went Wrong',
+};
+
+interface AiErrorAlertProps {
+  error: AiError;
+  onRetry: () => void;
+  onSwitchModel?: () => void;
+  onReupload: () => void;
+}
+
+function formatCountdown(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return minutes > 0 ? `${minutes}:${String(seconds % 60).padStart(2, '0')}` : `${seconds}s`;
+}
+
+/** Seconds left until `retryAfterMs` (from when the error arrived) has passed, ticking down once a second. */
+function useRetryCountdown(error: AiError): number | null {
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const retryAfterMs = error.kind === 'quota_exceeded' || error.kind === 'budget_exceeded' ? error.retryAfterMs : null;
+
+  useEffect(() => {
+    if (retryAfterMs === null) {
+      setDeadline(null);
+      return;
+    }
+    setDeadline(Date.now() + retryAfterMs);
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [error, retryAfterMs]);
+
+  return deadline === null ? null : Math.max(0, Math.ceil((deadline - now) / 1000));
+}
+
+export function AiErrorAlert({ error, onRetry, onSwitchModel, onReupload }: AiErrorAlertProps) {
+  const action = getRecoveryAction(error);
+  const retryAfterSeconds = error.kind === 'rate_limited' && error.retryAfterMs ? Math.ceil(error.retryAfterMs / 1000) : null;
+  const countdownSeconds = useRetryCountdown(error);
+
+  return (
+    <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertTitle>{errorTitles[error.kind]}</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>{error.message}</p>
+        {retryAfterSeconds && <p>Please wait about {retryAfterSeconds}s before trying again.</p>}
+        {action === 'wait' && countdownSeconds !== null && countdownSeconds > 0 && (
+          <p className="flex items-center">
+            <Clock className="mr-1 h-4 w-4" /> Available again in {formatCountdown(countdownSeconds)}
+          </p>
+        )}
+        {(action === 'retry' || (action === 'wait' && countdownSeconds === 0)) && (
+          <Button size="sm" variant="outline" onClick={onRetry}>
+            <RefreshCw className="mr-2 h-4 w-4" /> Try again
+          </Button>
+        )}
+        {action === 'switch_model' && onSwitchModel && (
+          <Button size="sm" variant="outline" onClick={onSwitchModel}>
+            <Repeat className="mr-2 h-4 w-4" /> Switch model
+          </Button>
+        )}
+        {(action === 'reupload' || (action === 'switch_model' && !onSwitchModel)) && (
+          <Button size="sm" variant="outline" onClick={onReupload}>
+            <Upload className="mr-2 h-4 w-4" /> Upload a different photo
+          </Button>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
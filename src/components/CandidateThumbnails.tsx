@@ -0,0 +1,38 @@
+"use client";
+
+import Image from 'next/image';
+import type { TryOnCandidate } from '@/ai/flows/generate-ai-try-on';
+import { cn } from '@/lib/utils';
+
+interface CandidateThumbnailsProps {
+  candidates: TryOnCandidate[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+}
+
+export function CandidateThumbnails({ candidates, selectedIndex, onSelect }: CandidateThumbnailsProps) {
+  if (candidates.length < 2) {
+    return null;
+  }
+  return (
+    <div className="flex gap-2 overflow-x-auto pt-2" role="listbox" aria-label="Alternate try-on results">
+      {candidates.map((candidate, index) => (
+        <button
+          key={candidate.rank}
+          type="button"
+          role="option"
+          aria-selected={index === selectedIndex}
+          aria-label={`Result ${candidate.rank}, score ${Math.round(candidate.score * 100)}`}
+          onClick={() => onSelect(index)}
+          className={cn(
+            "relative h-20 w-20 shrink-0 rounded-md overflow-hidden border-2 bg-muted transition-all",
+            index === selectedIndex ? "border-primary ring-2 ring-primary" : "border-muted hover:border-primary/60"
+          )}
+        >
+          <Image src={candidate.generatedImage} alt={`Try-on result ${candidate.rank}`} fill className="object-cover" />
+          <span className="absolute bottom-0 right-0 rounded-tl bg-black/60 px-1 text-[10px] text-white">#{candidate.rank}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
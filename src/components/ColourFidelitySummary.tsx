@@ -0,0 +1,45 @@
+"use client";
+
+import type { TryOnCandidate } from "@/ai/flows/generate-ai-try-on";
+import { cn } from "@/lib/utils";
+
+type ColourFidelity = NonNullable<TryOnCandidate["colourFidelity"]>;
+
+interface ColourFidelitySummaryProps {
+  fidelity: ColourFidelity;
+}
+
+function Swatches({ label, palette }: { label: string; palette: ColourFidelity["itemPalette"] }) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-16 text-xs text-muted-foreground">{label}</span>
+      <div className="flex h-4 flex-1 overflow-hidden rounded border">
+        {palette.map((colour) => (
+          <span
+            key={colour.hex}
+            title={`${colour.hex} (${Math.round(colour.share * 100)}%)`}
+            style={{ backgroundColor: colour.hex, width: `${colour.share * 100}%` }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function ColourFidelitySummary({ fidelity }: ColourFidelitySummaryProps) {
+  let message = `Colour match: ΔE ${fidelity.deltaE.toFixed(1)}`;
+  if (fidelity.corrected) {
+    message = `Colours corrected towards the item (ΔE ${fidelity.deltaEBeforeCorrection?.toFixed(1)} → ${fidelity.deltaE.toFixed(1)})`;
+  } else if (!fidelity.withinTolerance) {
+    message = `The item's shade may differ from the product (ΔE ${fidelity.deltaE.toFixed(1)}). Try "Correct colours" or regenerating.`;
+  }
+  return (
+    <div className="space-y-1" aria-label="Colour match">
+      <p className={cn("text-sm text-center", fidelity.withinTolerance ? "text-muted-foreground" : "text-destructive")}>
+        {message}
+      </p>
+      <Swatches label="Product" palette={fidelity.itemPalette} />
+      <Swatches label="Try-on" palette={fidelity.garmentPalette} />
+    </div>
+  );
+}
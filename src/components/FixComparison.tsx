@@ -0,0 +1,51 @@
+"use client";
+
+import Image from 'next/image';
+import { Button } from '@/components/ui/button';
+import type { PhotoFixAction } from '@/ai/flows/fix-image';
+import { Undo2 } from 'lucide-react';
+
+export function describeFix(fix: PhotoFixAction): string {
+  switch (fix.type) {
+    case 'brighten':
+      return `Brighten ×${fix.gain.toFixed(1)}`;
+    case 'auto_crop':
+      return 'Crop to you';
+    case 'straighten':
+      return `Straighten ${Math.abs(fix.degrees).toFixed(0)}°`;
+    case 'upscale':
+      return `Upscale ×${fix.factor.toFixed(1)}`;
+  }
+}
+
+interface FixComparisonProps {
+  before: string;
+  after: string;
+  applied: PhotoFixAction[];
+  onRevert: () => void;
+  disabled?: boolean;
+}
+
+export function FixComparison({ before, after, applied, onRevert, disabled }: FixComparisonProps) {
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <p className="text-sm font-medium">Applied: {applied.map(describeFix).join(', ')}</p>
+      <div className="grid grid-cols-2 gap-2">
+        {[
+          { src: before, label: 'Before' },
+          { src: after, label: 'After' },
+        ].map(({ src, label }) => (
+          <figure key={label} className="space-y-1">
+            <div className="relative aspect-square overflow-hidden rounded-md border bg-muted">
+              <Image src={src} alt={`${label} automatic fixes`} fill className="object-contain" />
+            </div>
+            <figcaption className="text-center text-xs text-muted-foreground">{label}</figcaption>
+          </figure>
+        ))}
+      </div>
+      <Button size="sm" variant="ghost" onClick={onRevert} disabled={disabled} className="w-full">
+        <Undo2 className="mr-2 h-4 w-4" /> Use my original photo
+      </Button>
+    </div>
+  );
+}
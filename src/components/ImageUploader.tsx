@@ -11,10 +11,15 @@ import { useToast } from '@/hooks/use-toast';
 interface ImageUploaderProps {
   onImageUpload: (dataUrl: string) => void;
   maxFileSizeMB?: number;
+  /** Drawn over the preview, e.g. validation annotations. */
+  overlay?: React.ReactNode;
+  /** Replaces the preview with an image set by the parent, e.g. an automatically fixed photo. */
+  value?: string | null;
 }
 
-export function ImageUploader({ onImageUpload, maxFileSizeMB = 5 }: ImageUploaderProps) {
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+export function ImageUploader({ onImageUpload, maxFileSizeMB = 5, overlay, value }: ImageUploaderProps) {
+  const [uploadedUrl, setUploadedUrl] = useState<string | null>(null);
+  const previewUrl = uploadedUrl && value ? value : uploadedUrl;
   const [fileName, setFileName] = useState<string | null>(null);
   const { toast } = useToast();
 
@@ -43,7 +48,7 @@ export function ImageUploader({ onImageUpload, maxFileSizeMB = 5 }: ImageUploade
       const reader = new FileReader();
       reader.onloadend = () => {
         const dataUrl = reader.result as string;
-        setPreviewUrl(dataUrl);
+        setUploadedUrl(dataUrl);
         onImageUpload(dataUrl);
       };
       reader.readAsDataURL(file);
@@ -51,7 +56,7 @@ export function ImageUploader({ onImageUpload, maxFileSizeMB = 5 }: ImageUploade
   }, [onImageUpload, maxFileSizeMB, toast]);
 
   const handleRemoveImage = useCallback(() => {
-    setPreviewUrl(null);
+    setUploadedUrl(null);
     setFileName(null);
     onImageUpload(''); // Notify parent that image is removed
     // Reset file input value
@@ -74,6 +79,7 @@ export function ImageUploader({ onImageUpload, maxFileSizeMB = 5 }: ImageUploade
         {previewUrl ? (
           <>
             <Image src={previewUrl} alt="Uploaded preview" layout="fill" objectFit="contain" className="rounded-lg p-2" data-ai-hint="person portrait"/>
+            {overlay}
             <Button 
               variant="destructive" 
               size="icon" 
@@ -2,23 +2,39 @@
 
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { BrainCircuit } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { BrainCircuit, Clock } from "lucide-react";
+import type { ModelManifestEntry, TryOnModelId } from "@/ai/models";
+import type { Product } from "@/lib/products";
 
-const models = [
-  { id: 'googleai/gemini-2.0-flash', name: 'Gemini Flash', description: 'Fast and versatile model.' },
-  { id: 'imagen3', name: 'Imagen 3', description: 'Advanced image generation.' },
-  { id: 'imagen4', name: 'Imagen 4', description: 'State-of-the-art capabilities.' },
-] as const; // Use "as const" to infer literal types for ids
+export type ModelId = TryOnModelId;
 
-export type ModelId = typeof models[number]['id'];
+const costTierLabels: Record<ModelManifestEntry['costTier'], string> = {
+  free: 'Free',
+  low: '$',
+  medium: '$$',
+  high: '$$$',
+};
 
 interface ModelSelectorProps {
+  models: ModelManifestEntry[];
+  productType: Product['type'];
   selectedModel: ModelId;
   onModelChange: (model: ModelId) => void;
   disabled?: boolean;
 }
 
-export function ModelSelector({ selectedModel, onModelChange, disabled }: ModelSelectorProps) {
+export function getDisabledReason(model: ModelManifestEntry, productType: Product['type']): string | null {
+  if (!model.available) {
+    return model.unavailableReason ?? 'Currently unavailable.';
+  }
+  if (!model.productTypes.includes(productType)) {
+    return `Does not support ${productType} items.`;
+  }
+  return null;
+}
+
+export function ModelSelector({ models, productType, selectedModel, onModelChange, disabled }: ModelSelectorProps) {
   return (
     <div className="space-y-3">
       <Label className="text-base font-semibold flex items-center">
@@ -27,25 +43,36 @@ export function ModelSelector({ selectedModel, onModelChange, disabled }: ModelS
       </Label>
       <RadioGroup
         value={selectedModel}
-        onValueChange={onModelChange}
-        className="grid grid-cols-1 md:grid-cols-3 gap-4"
+        onValueChange={(value) => onModelChange(value as ModelId)}
+        className="grid grid-cols-1 md:grid-cols-2 gap-4"
         disabled={disabled}
       >
-        {models.map((model) => (
-          <Label
-            key={model.id}
-            htmlFor={model.id}
-            className={`flex flex-col items-start justify-center rounded-md border-2 p-4 transition-all hover:border-primary ${
-              selectedModel === model.id ? "border-primary ring-2 ring-primary" : "border-muted"
-            } ${disabled ? "cursor-not-allowed opacity-50" : "cursor-pointer"}`}
-          >
-            <div className="flex items-center space-x-2">
-              <RadioGroupItem value={model.id} id={model.id} disabled={disabled} />
-              <span className="font-medium text-foreground">{model.name}</span>
-            </div>
-            <p className="text-xs text-muted-foreground mt-1 pl-6">{model.description}</p>
-          </Label>
-        ))}
+        {models.map((model) => {
+          const disabledReason = getDisabledReason(model, productType);
+          const isDisabled = disabled || !!disabledReason;
+          return (
+            <Label
+              key={model.id}
+              htmlFor={model.id}
+              className={`flex flex-col items-start justify-center rounded-md border-2 p-4 transition-all hover:border-primary ${
+                selectedModel === model.id ? "border-primary ring-2 ring-primary" : "border-muted"
+              } ${isDisabled ? "cursor-not-allowed opacity-50" : "cursor-pointer"}`}
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value={model.id} id={model.id} disabled={isDisabled} />
+                <span className="font-medium text-foreground">{model.name}</span>
+                <Badge variant="secondary">{costTierLabels[model.costTier]}</Badge>
+              </div>
+              <p className="text-xs text-muted-foreground mt-1 pl-6">{model.description}</p>
+              <p className="text-xs text-muted-foreground mt-1 pl-6 flex items-center">
+                <Clock className="h-3 w-3 mr-1" />~{model.expectedLatencySeconds}s
+              </p>
+              {disabledReason && (
+                <p className="text-xs text-destructive mt-1 pl-6">{disabledReason}</p>
+              )}
+            </Label>
+          );
+        })}
       </RadioGroup>
     </div>
   );
@@ -6,14 +6,30 @@ import Image from 'next/image';
 import type { Product } from '@/lib/products';
 // No longer importing TryOnPageProps from page.tsx
 import { ImageUploader } from '@/components/ImageUploader';
-import { ModelSelector, type ModelId } from '@/components/ModelSelector';
+import { ModelSelector, getDisabledReason, type ModelId } from '@/components/ModelSelector';
+import type { ModelManifestEntry } from '@/ai/models';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
 import { useToast } from '@/hooks/use-toast';
 import { validateImage, type ValidateImageOutput } from '@/ai/flows/validate-image';
-import { generateAiTryOn } from '@/ai/flows/generate-ai-try-on';
-import { AlertCircle, CheckCircle2, Wand2, Upload, Lightbulb } from 'lucide-react';
+import type { GenerateAiTryOnInput, TryOnCandidate, TryOnProgressEvent } from '@/ai/flows/generate-ai-try-on';
+import type { generateAiTryOnStreamingFlow } from '@/ai/flows/try-on-flow';
+import { streamFlow } from '@genkit-ai/next/client';
+import { CandidateThumbnails } from '@/components/CandidateThumbnails';
+import { TryOnProgress } from '@/components/TryOnProgress';
+import { toAiError, type AiError, type AiResult } from '@/ai/errors';
+import { AiErrorAlert } from '@/components/AiErrorAlert';
+import { ValidationChecklist } from '@/components/ValidationChecklist';
+import { ValidationOverlay } from '@/components/ValidationOverlay';
+import { fixImage, type PhotoFixAction } from '@/ai/flows/fix-image';
+import { FixComparison, describeFix } from '@/components/FixComparison';
+import type { TryOnJudgement } from '@/ai/flows/judge-try-on';
+import { TryOnJudgementSummary } from '@/components/TryOnJudgementSummary';
+import { ColourFidelitySummary } from '@/components/ColourFidelitySummary';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { AlertCircle, CheckCircle2, Wand2, Upload, Lightbulb, RefreshCw, Sparkles } from 'lucide-react';
 import {
   Tooltip,
   TooltipContent,
@@ -21,6 +37,10 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { cn } from '@/lib/utils';
+
+/** Regenerations the studio makes on its own when the judge scores the best candidate below its threshold. */
+const MAX_AUTO_REGENERATIONS = 1;
 
 // Define props for TryOnClient
 interface TryOnClientProps {
@@ -29,105 +49,191 @@ interface TryOnClientProps {
     itemId: string; // itemId is still part of params for potential future use or context
   };
   product: Product; // Product is now a direct prop
+  models: ModelManifestEntry[]; // Server-driven model manifest
 }
 
-export function TryOnClient({ params, product }: TryOnClientProps) {
+export function TryOnClient({ params, product, models }: TryOnClientProps) {
   // Product data is now received as a prop, no need for useState for product or useEffect to fetch it.
   const [userImage, setUserImage] = useState<string | null>(null);
   const [validationResult, setValidationResult] = useState<ValidateImageOutput | null>(null);
-  const [selectedModel, setSelectedModel] = useState<ModelId>('googleai/gemini-2.0-flash');
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+  const [selectedModel, setSelectedModel] = useState<ModelId>(
+    () => (models.find(model => !getDisabledReason(model, product.type)) ?? models[0]).id
+  );
+  const [candidates, setCandidates] = useState<TryOnCandidate[]>([]);
+  const [selectedCandidateIndex, setSelectedCandidateIndex] = useState(0);
+  const [isResultCached, setIsResultCached] = useState(false);
+  const [progressEvents, setProgressEvents] = useState<TryOnProgressEvent[]>([]);
   const [isLoadingValidation, setIsLoadingValidation] = useState(false);
   const [isLoadingGeneration, setIsLoadingGeneration] = useState(false);
-  const [error, setError] = useState<string | null>(null); // Kept for other runtime errors
+  const [validationError, setValidationError] = useState<AiError | null>(null);
+  const [fixComparison, setFixComparison] = useState<{ before: string; after: string; applied: PhotoFixAction[] } | null>(null);
+  const [isFixing, setIsFixing] = useState(false);
+  const [generationError, setGenerationError] = useState<AiError | null>(null);
+  const [judgement, setJudgement] = useState<TryOnJudgement | null>(null);
+  const [correctColour, setCorrectColour] = useState(false);
 
   const { toast } = useToast();
 
   const handleImageUpload = (dataUrl: string) => {
     setUserImage(dataUrl);
     setValidationResult(null); // Reset validation on new image
-    setGeneratedImage(null); // Reset generated image
+    setCandidates([]); // Reset generated images
+    setJudgement(null);
+    setValidationError(null);
+    setGenerationError(null);
+    setFixComparison(null);
   };
 
-  const handleValidateImage = async () => {
-    if (!userImage) {
+  const handleValidateImage = async (photo: string | null = userImage) => {
+    if (!photo) {
       toast({ variant: 'destructive', title: 'No Image', description: 'Please upload an image first.' });
       return;
     }
     setIsLoadingValidation(true);
     setValidationResult(null);
-    setError(null); // Clear previous errors
-    try {
-      const result = await validateImage({ photoDataUri: userImage });
-      setValidationResult(result);
-      if (result.isValid) {
+    setValidationError(null); // Clear previous errors
+    const result = await validateImage({ photoDataUri: photo, garmentRegion: product.region }).catch(
+      (err): AiResult<never> => ({ ok: false, error: toAiError(err) })
+    );
+    if (result.ok) {
+      setValidationResult(result.data);
+      if (result.data.isValid) {
         toast({ title: 'Image Validated', description: 'Your image is suitable for try-on!', className: 'bg-green-500 text-white' });
       } else {
         toast({
           variant: 'destructive',
           title: 'Image Validation Failed',
-          description: result.reason || 'The image is not suitable. Please check suggestions.',
+          description: result.data.reason || 'The image is not suitable. Please check suggestions.',
           duration: 7000,
         });
       }
-    } catch (err) {
-      console.error('Validation error:', err);
-      const errorMessage = err instanceof Error ? err.message : 'Could not validate the image.';
-      setError(errorMessage);
-      toast({ variant: 'destructive', title: 'Validation Error', description: errorMessage });
-       setValidationResult({ isValid: false, reason: 'An error occurred during validation.', suggestions: 'Please try again or use a different image.' });
-    } finally {
-      setIsLoadingValidation(false);
+    } else {
+      console.error('Validation error:', result.error);
+      setValidationError(result.error);
+      toast({ variant: 'destructive', title: 'Validation Error', description: result.error.message });
+    }
+    setIsLoadingValidation(false);
+  };
+
+  const handleFixAndRevalidate = async () => {
+    if (!userImage || !validationResult?.fixes.length) {
+      return;
+    }
+    setIsFixing(true);
+    const result = await fixImage({ photoDataUri: userImage, fixes: validationResult.fixes }).catch(
+      (err): AiResult<never> => ({ ok: false, error: toAiError(err) })
+    );
+    setIsFixing(false);
+    if (!result.ok) {
+      console.error('Fix error:', result.error);
+      toast({ variant: 'destructive', title: 'Could Not Fix Photo', description: result.error.message });
+      return;
     }
+    setFixComparison({ before: fixComparison?.before ?? userImage, after: result.data.photoDataUri, applied: result.data.applied });
+    setUserImage(result.data.photoDataUri);
+    setCandidates([]);
+    await handleValidateImage(result.data.photoDataUri);
   };
 
-  const handleGenerateTryOn = async () => {
+  const handleRevertFix = async () => {
+    if (!fixComparison) {
+      return;
+    }
+    const original = fixComparison.before;
+    setFixComparison(null);
+    setUserImage(original);
+    setCandidates([]);
+    await handleValidateImage(original);
+  };
+
+  /** Shows the server's judgement of the best candidate and regenerates once if it is below par. Returns whether it regenerated. */
+  const applyJudgement = async (result: TryOnJudgement | undefined, autoRegenerations: number) => {
+    if (!result) {
+      // The score is informational; a result the server could not judge is shown as it is.
+      return false;
+    }
+    setJudgement(result);
+    if (result.judged && !result.passed && autoRegenerations < MAX_AUTO_REGENERATIONS) {
+      toast({
+        title: 'Improving Your Result',
+        description: `The quality score was ${Math.round(result.overall * 100)}/100, so we're generating a better one.`,
+      });
+      await handleGenerateTryOn({ bypassCache: true, autoRegenerations: autoRegenerations + 1 });
+      return true;
+    }
+    return false;
+  };
+
+  const handleGenerateTryOn = async ({
+    bypassCache = false,
+    autoRegenerations = 0,
+  }: { bypassCache?: boolean; autoRegenerations?: number } = {}) => {
     if (!userImage || !product || !validationResult?.isValid) {
       toast({ variant: 'destructive', title: 'Cannot Generate', description: 'Ensure an image is uploaded and validated.' });
       return;
     }
     setIsLoadingGeneration(true);
-    setGeneratedImage(null);
-    setError(null); // Clear previous errors
+    setCandidates([]);
+    setJudgement(null);
+    setGenerationError(null); // Clear previous errors
+    setProgressEvents([]);
 
-    let itemImageDataUri = product.imageUrl;
-    if (!product.imageUrl.startsWith('data:')) {
-        console.warn("Product image URL is not a data URI. AI generation might fail if the model expects a data URI for the item image and doesn't handle HTTP itself.");
+    const input: GenerateAiTryOnInput = {
+      userImage: userImage,
+      itemImage: product.imageUrl,
+      garmentRegion: product.region,
+      model: selectedModel,
+      correctColour,
+      bypassCache,
+    };
+    const result = await (async () => {
+      const { stream, output } = streamFlow<typeof generateAiTryOnStreamingFlow>({ url: '/api/try-on', input });
+      for await (const event of stream) {
+        setProgressEvents(events => [...events, event]);
+      }
+      return output;
+    })().catch((err): AiResult<never> => ({ ok: false, error: toAiError(err) }));
+    if (result.ok) {
+      setCandidates(result.data.candidates); // Ranked best-first
+      setSelectedCandidateIndex(0);
+      setIsResultCached(result.data.cached);
+      setIsLoadingGeneration(false);
+      const regenerated = await applyJudgement(result.data.judgement, autoRegenerations);
+      if (!regenerated) {
+        toast({
+          title: 'Try-On Complete!',
+          description: result.data.cached ? 'Showing your previous result for this look.' : 'Check out your new look.',
+          className: 'bg-primary text-primary-foreground',
+        });
+      }
+    } else {
+      console.error('Generation error:', result.error);
+      setGenerationError(result.error);
+      toast({ variant: 'destructive', title: 'Generation Error', description: result.error.message });
+      setIsLoadingGeneration(false);
     }
+  };
 
-    try {
-      const result = await generateAiTryOn({
-        userImage: userImage,
-        itemImage: itemImageDataUri,
-        model: selectedModel,
-        // productName: product.name, // Removed productName
-      });
-      setGeneratedImage(result.generatedImage);
-      toast({ title: 'Try-On Complete!', description: 'Check out your new look.', className: 'bg-primary text-primary-foreground' });
-    } catch (err) {
-      console.error('Generation error:', err);
-      const errorMessage = err instanceof Error ? err.message : 'Could not generate the try-on image.';
-      setError(errorMessage);
-      toast({ variant: 'destructive', title: 'Generation Error', description: errorMessage });
-    } finally {
-      setIsLoadingGeneration(false);
+  const handleSwitchModel = () => {
+    const alternative = models.find(model => model.id !== selectedModel && !getDisabledReason(model, product.type));
+    if (alternative) {
+      setSelectedModel(alternative.id);
+      setGenerationError(null);
+      toast({ title: 'Model Switched', description: `Switched to ${alternative.name}. Press "Try On Now!" to retry.` });
+    } else {
+      toast({ variant: 'destructive', title: 'No Other Model', description: 'No other AI model is available right now.' });
     }
   };
 
-  if (error && !isLoadingValidation && !isLoadingGeneration) {
-    return (
-      <div className="container mx-auto px-4 py-8 text-center">
-        <Alert variant="destructive">
-          <AlertCircle className="h-4 w-4" />
-          <AlertTitle>An Error Occurred</AlertTitle>
-          <AlertDescription>{error}</AlertDescription>
-        </Alert>
-        <Button onClick={() => setError(null)} className="mt-4">Try again</Button>
-      </div>
-    );
-  }
-  
-  const isTryOnDisabled = isLoadingGeneration || !validationResult?.isValid || !userImage;
+  const handleReupload = () => {
+    document.getElementById('user-image-upload')?.click();
+  };
+
+  const selectedCandidate = candidates[selectedCandidateIndex];
+  const generatedImage = selectedCandidate?.generatedImage ?? null;
+  const selectedModelEntry = models.find(model => model.id === selectedModel);
+  const isSelectedModelUsable = !!selectedModelEntry && !getDisabledReason(selectedModelEntry, product.type);
+  const isTryOnDisabled = isLoadingGeneration || !validationResult?.isValid || !userImage || !isSelectedModelUsable;
 
   return (
     <TooltipProvider>
@@ -154,22 +260,60 @@ export function TryOnClient({ params, product }: TryOnClientProps) {
             <CardDescription>Upload a clear, front-facing photo of yourself for the best results.</CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
-            <ImageUploader onImageUpload={handleImageUpload} />
+            <ImageUploader
+              onImageUpload={handleImageUpload}
+              value={userImage}
+              overlay={
+                validationResult?.imageSize && (
+                  <ValidationOverlay
+                    annotations={validationResult.annotations}
+                    imageWidth={validationResult.imageSize.width}
+                    imageHeight={validationResult.imageSize.height}
+                  />
+                )
+              }
+            />
             {userImage && (
-              <Button onClick={handleValidateImage} disabled={isLoadingValidation || !userImage} className="w-full">
+              <Button onClick={() => handleValidateImage()} disabled={isLoadingValidation || !userImage} className="w-full">
                 {isLoadingValidation ? <LoadingSpinner size="sm" /> : <CheckCircle2 className="mr-2 h-4 w-4" />}
                 Validate Image
               </Button>
             )}
 
+            {validationError && (
+              <AiErrorAlert error={validationError} onRetry={() => handleValidateImage()} onReupload={handleReupload} />
+            )}
+
             {validationResult && !validationResult.isValid && (
               <Alert variant="destructive" className="mt-4">
                 <AlertCircle className="h-4 w-4" />
                 <AlertTitle>Validation Failed: {validationResult.reason}</AlertTitle>
-                <AlertDescription>
-                  <Lightbulb className="h-4 w-4 inline mr-1"/>Suggestions: {validationResult.suggestions}
-                </AlertDescription>
+                {validationResult.suggestions && (
+                  <AlertDescription>
+                    <Lightbulb className="h-4 w-4 inline mr-1"/>Suggestions: {validationResult.suggestions}
+                  </AlertDescription>
+                )}
               </Alert>
+            )}
+            {validationResult && !validationResult.isValid && validationResult.fixes.length > 0 && (
+              <Button
+                variant="secondary"
+                onClick={handleFixAndRevalidate}
+                disabled={isFixing || isLoadingValidation}
+                className="w-full"
+              >
+                {isFixing ? <LoadingSpinner size="sm" /> : <Sparkles className="mr-2 h-4 w-4" />}
+                Fix and revalidate ({validationResult.fixes.map(describeFix).join(', ')})
+              </Button>
+            )}
+            {fixComparison && (
+              <FixComparison
+                before={fixComparison.before}
+                after={fixComparison.after}
+                applied={fixComparison.applied}
+                onRevert={handleRevertFix}
+                disabled={isFixing || isLoadingValidation}
+              />
             )}
              {validationResult && validationResult.isValid && (
               <Alert variant="default" className="mt-4 border-green-500 bg-green-50 dark:bg-green-900/30">
@@ -180,6 +324,7 @@ export function TryOnClient({ params, product }: TryOnClientProps) {
                 </AlertDescription>
               </Alert>
             )}
+            {validationResult && <ValidationChecklist checks={validationResult.checks} />}
           </CardContent>
         </Card>
 
@@ -189,12 +334,36 @@ export function TryOnClient({ params, product }: TryOnClientProps) {
             <CardDescription>Select your preferred AI model and generate your new look.</CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
-            <ModelSelector selectedModel={selectedModel} onModelChange={setSelectedModel} disabled={!validationResult?.isValid || !userImage || isLoadingGeneration} />
+            <ModelSelector models={models} productType={product.type} selectedModel={selectedModel} onModelChange={setSelectedModel} disabled={!validationResult?.isValid || !userImage || isLoadingGeneration} />
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="correct-colour" className="space-y-1">
+                <span className="block">Correct colours</span>
+                <span className="block text-xs font-normal text-muted-foreground">
+                  Shift the item back to the product&apos;s shade when the AI gets it wrong.
+                </span>
+              </Label>
+              <Switch id="correct-colour" checked={correctColour} onCheckedChange={setCorrectColour} disabled={isLoadingGeneration} />
+            </div>
+            {generationError && (
+              <AiErrorAlert
+                error={generationError}
+                onRetry={() => handleGenerateTryOn()}
+                onSwitchModel={handleSwitchModel}
+                onReupload={handleReupload}
+              />
+            )}
           </CardContent>
           <CardFooter>
-            <Button onClick={handleGenerateTryOn} disabled={isTryOnDisabled} className="w-full text-lg py-6">
-              {isLoadingGeneration ? <LoadingSpinner size="sm" text="Generating..." /> : "Try On Now!"}
-            </Button>
+            <div className="w-full space-y-2">
+              <Button onClick={() => handleGenerateTryOn()} disabled={isTryOnDisabled} className="w-full text-lg py-6">
+                {isLoadingGeneration ? <LoadingSpinner size="sm" text="Generating..." /> : "Try On Now!"}
+              </Button>
+              {isResultCached && !isLoadingGeneration && (
+                <Button variant="outline" onClick={() => handleGenerateTryOn({ bypassCache: true })} disabled={isTryOnDisabled} className="w-full">
+                  <RefreshCw className="mr-2 h-4 w-4" /> Regenerate (skip saved result)
+                </Button>
+              )}
+            </div>
           </CardFooter>
         </Card>
       </div>
@@ -220,7 +389,11 @@ export function TryOnClient({ params, product }: TryOnClientProps) {
             <div className="space-y-2">
               <h3 className="text-lg font-semibold text-center text-muted-foreground">AI Try-On Result</h3>
               <div className="aspect-square w-full relative rounded-lg overflow-hidden border bg-muted">
-                {isLoadingGeneration && <div className="absolute inset-0 flex items-center justify-center bg-black/30 z-10"><LoadingSpinner text="Creating your look..." /></div>}
+                {isLoadingGeneration && (
+                  <div className="absolute inset-0 flex items-center justify-center bg-black/30 z-10 p-4">
+                    <TryOnProgress events={progressEvents} />
+                  </div>
+                )}
                 {generatedImage && !isLoadingGeneration ? (
                   <Image src={generatedImage} alt="AI generated try-on" fill className="object-contain" data-ai-hint="fashion try on"/>
                 ) : !isLoadingGeneration && (
@@ -229,6 +402,37 @@ export function TryOnClient({ params, product }: TryOnClientProps) {
                   </div>
                 )}
               </div>
+              {!isLoadingGeneration && selectedCandidate && (
+                <p className="text-sm text-center text-muted-foreground">
+                  Photo preserved: {Math.round(selectedCandidate.canvasIntegrity.score * 100)}% of pixels outside the item unchanged
+                </p>
+              )}
+              {!isLoadingGeneration && selectedCandidate?.identity.similarity !== undefined && (
+                <p className={cn("text-sm text-center", selectedCandidate.identity.passed ? "text-muted-foreground" : "text-destructive")}>
+                  {selectedCandidate.identity.passed
+                    ? `Face match: ${Math.round(selectedCandidate.identity.similarity * 100)}%`
+                    : `Your face may have changed (match ${Math.round(selectedCandidate.identity.similarity * 100)}%). Try regenerating.`}
+                </p>
+              )}
+              {!isLoadingGeneration && selectedCandidate?.colourFidelity && (
+                <ColourFidelitySummary fidelity={selectedCandidate.colourFidelity} />
+              )}
+              {!isLoadingGeneration && selectedCandidate && (selectedCandidate.model !== selectedModel || selectedCandidate.attempts > 1) && (
+                <p className="text-xs text-center text-muted-foreground">
+                  Generated by {models.find(model => model.id === selectedCandidate.model)?.name ?? selectedCandidate.model}
+                  {selectedCandidate.attempts > 1 && ` after ${selectedCandidate.attempts} attempts`}
+                </p>
+              )}
+              {!isLoadingGeneration && judgement?.judged && selectedCandidateIndex === 0 && (
+                <TryOnJudgementSummary judgement={judgement} />
+              )}
+              {!isLoadingGeneration && (
+                <CandidateThumbnails
+                  candidates={candidates}
+                  selectedIndex={selectedCandidateIndex}
+                  onSelect={setSelectedCandidateIndex}
+                />
+              )}
             </div>
           </CardContent>
         </Card>
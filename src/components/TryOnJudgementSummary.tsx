@@ -0,0 +1,45 @@
+"use client";
+
+import type { JudgeCriterionId, TryOnJudgement } from "@/ai/flows/judge-try-on";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import { Award } from "lucide-react";
+
+const criterionLabels: Record<JudgeCriterionId, string> = {
+  garment_fidelity: 'Item accuracy',
+  identity_preservation: 'Looks like you',
+  realism: 'Realism',
+  artifacts: 'Free of glitches',
+};
+
+interface TryOnJudgementSummaryProps {
+  judgement: TryOnJudgement;
+}
+
+export function TryOnJudgementSummary({ judgement }: TryOnJudgementSummaryProps) {
+  return (
+    <div className="space-y-3 rounded-lg border p-3" aria-label="Try-on quality">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center text-sm font-semibold">
+          <Award className="mr-1 h-4 w-4 text-primary" /> Quality score
+        </span>
+        <span className={cn("text-sm font-semibold", !judgement.passed && "text-destructive")}>
+          {Math.round(judgement.overall * 100)}/100
+        </span>
+      </div>
+      <p className="text-xs text-muted-foreground">{judgement.summary}</p>
+      <ul className="space-y-2">
+        {judgement.criteria.map((criterion) => (
+          <li key={criterion.id} className="space-y-1 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">{criterionLabels[criterion.id]}</span>
+              <span className="text-xs text-muted-foreground">{Math.round(criterion.score * 100)}%</span>
+            </div>
+            <Progress value={criterion.score * 100} className="h-1.5" />
+            <p className="text-xs text-muted-foreground">{criterion.explanation}</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
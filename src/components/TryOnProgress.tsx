@@ -0,0 +1,60 @@
+"use client";
+
+import { Progress } from "@/components/ui/progress";
+import type { TryOnProgressEvent, TryOnStage } from "@/ai/flows/generate-ai-try-on";
+import { cn } from "@/lib/utils";
+import { CheckCircle2, Circle, Loader2 } from "lucide-react";
+
+const stageLabels: Record<TryOnStage, string> = {
+  normalising: 'Preparing your photo',
+  preparing: 'Isolating the item',
+  generating: 'Generating your look',
+  verifying: 'Verifying the result',
+  judging: 'Scoring the result',
+};
+
+const stageOrder = Object.keys(stageLabels) as TryOnStage[];
+
+interface TryOnProgressProps {
+  events: TryOnProgressEvent[];
+}
+
+export function TryOnProgress({ events }: TryOnProgressProps) {
+  const stageEvents = events.flatMap(event => (event.type === 'stage' ? [event] : []));
+  // Candidates run in parallel, so the furthest stage any of them reached is the current one.
+  const currentIndex = Math.max(-1, ...stageEvents.map(event => stageOrder.indexOf(event.stage)));
+  const latestMessage = stageEvents.at(-1)?.message;
+  const commentary = events
+    .flatMap(event => (event.type === 'commentary' && event.candidateIndex === 0 ? [event.text] : []))
+    .join('');
+
+  return (
+    <div className="w-full max-w-xs space-y-3 rounded-lg bg-background/95 p-4 shadow-lg" aria-live="polite">
+      <Progress value={((currentIndex + 1) / stageOrder.length) * 100} />
+      <ol className="space-y-1">
+        {stageOrder.map((stage, index) => (
+          <li
+            key={stage}
+            className={cn(
+              "flex items-center text-sm",
+              index === currentIndex ? "font-medium text-foreground" : "text-muted-foreground"
+            )}
+          >
+            {index < currentIndex ? (
+              <CheckCircle2 className="mr-2 h-4 w-4 text-green-600" />
+            ) : index === currentIndex ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin text-primary" />
+            ) : (
+              <Circle className="mr-2 h-4 w-4" />
+            )}
+            {stageLabels[stage]}
+          </li>
+        ))}
+      </ol>
+      {latestMessage && <p className="text-xs text-muted-foreground">{latestMessage}</p>}
+      {commentary && (
+        <p className="max-h-20 overflow-y-auto text-xs italic text-muted-foreground">{commentary}</p>
+      )}
+    </div>
+  );
+}
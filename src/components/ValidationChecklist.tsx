@@ -0,0 +1,46 @@
+"use client";
+
+import type { ValidationCheck, ValidationCheckId } from "@/ai/flows/validate-image";
+import { cn } from "@/lib/utils";
+import { CheckCircle2, XCircle } from "lucide-react";
+
+const checkLabels: Record<ValidationCheckId, string> = {
+  file_integrity: 'File readable',
+  resolution: 'Resolution',
+  aspect_ratio: 'Aspect ratio',
+  exposure: 'Exposure',
+  sharpness: 'Sharpness',
+  pose: 'Pose',
+  framing: 'Framing',
+  body_coverage: 'Body coverage',
+  lighting: 'Lighting',
+  occlusion: 'Nothing in the way',
+  multiple_people: 'Only you in the photo',
+};
+
+interface ValidationChecklistProps {
+  checks: ValidationCheck[];
+}
+
+export function ValidationChecklist({ checks }: ValidationChecklistProps) {
+  return (
+    <ul className="space-y-2" aria-label="Photo checks">
+      {checks.map((check) => (
+        <li key={check.id} className="flex items-start gap-2 text-sm">
+          {check.passed ? (
+            <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-green-600 dark:text-green-400" />
+          ) : (
+            <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+          )}
+          <div className="flex-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className={cn("font-medium", !check.passed && "text-destructive")}>{checkLabels[check.id]}</span>
+              <span className="text-xs text-muted-foreground">{Math.round(check.score * 100)}%</span>
+            </div>
+            <p className="text-xs text-muted-foreground">{check.detail}</p>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import type { ValidationAnnotation } from "@/ai/flows/validate-image";
+
+interface ValidationOverlayProps {
+  annotations: ValidationAnnotation[];
+  /** Size of the photo the annotation boxes refer to. */
+  imageWidth: number;
+  imageHeight: number;
+}
+
+/**
+ * Draws validation annotations over an image shown with `object-fit: contain`.
+ * The SVG's viewBox matches the photo and `xMidYMid meet` letterboxes it the
+ * same way, so the boxes line up with the image at any container size.
+ */
+export function ValidationOverlay({ annotations, imageWidth, imageHeight }: ValidationOverlayProps) {
+  if (annotations.length === 0) {
+    return null;
+  }
+  const fontSize = Math.max(imageWidth, imageHeight) * 0.03;
+  return (
+    <svg
+      className="pointer-events-none absolute inset-0 h-full w-full p-2"
+      viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+      preserveAspectRatio="xMidYMid meet"
+      role="img"
+      aria-label={`Photo annotations: ${annotations.map(annotation => annotation.label).join(', ')}`}
+    >
+      {annotations.map((annotation, index) => {
+        const x = annotation.box.left * imageWidth;
+        const y = annotation.box.top * imageHeight;
+        // CSS variables only resolve in style properties, not in SVG presentation attributes.
+        const colour = annotation.problem ? "hsl(var(--destructive))" : "rgb(14 165 233)";
+        // Labels sit above the box, or inside it when the box touches the top edge.
+        const labelY = y > fontSize * 1.5 ? y - fontSize * 0.4 : y + fontSize * 1.2;
+        return (
+          <g key={`${annotation.kind}-${index}`}>
+            <rect
+              x={x}
+              y={y}
+              width={annotation.box.width * imageWidth}
+              height={annotation.box.height * imageHeight}
+              style={{ fill: annotation.problem ? "hsl(var(--destructive) / 0.15)" : "none", stroke: colour }}
+              strokeWidth={2}
+              strokeDasharray={annotation.problem ? undefined : "6 4"}
+              vectorEffect="non-scaling-stroke"
+            />
+            <text
+              x={x + fontSize * 0.3}
+              y={labelY}
+              fontSize={fontSize}
+              style={{ fill: colour }}
+              stroke="white"
+              strokeWidth={fontSize * 0.15}
+              paintOrder="stroke"
+              fontWeight={600}
+            >
+              {annotation.label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,13 @@
+/**
+ * @fileOverview Server startup checks, run once by Next.js before the server handles requests.
+ *
+ * Configuration errors that would otherwise only surface on the first AI
+ * call, or be swallowed by a fail-open path, stop the server here instead.
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const {assertRateLimitStoreConfig} = await import('@/ai/rate-limit/stores');
+    assertRateLimitStoreConfig();
+  }
+}
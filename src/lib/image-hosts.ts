@@ -0,0 +1,67 @@
+/**
+ * @fileOverview The hosts catalogue images are served from.
+ *
+ * `next.config.ts` passes these to `images.remotePatterns` for `next/image`,
+ * and the server-side image loader fetches only URLs that match them, so a
+ * client cannot point the server at internal hosts or cloud metadata
+ * endpoints. Add a host here when the catalogue moves to a new CDN.
+ *
+ * - CATALOGUE_IMAGE_PATTERNS - Remote image patterns, in the `images.remotePatterns` format.
+ * - isCatalogueImageUrl - Whether a URL matches one of the patterns.
+ * - RemoteImagePattern - One allowed protocol, host, port and path.
+ */
+
+export interface RemoteImagePattern {
+  protocol: 'http' | 'https';
+  /** An exact host, or `*.` (one label) or `**.` (any depth) followed by a domain. */
+  hostname: string;
+  /** An empty string allows only the protocol's default port. */
+  port: string;
+  /** An exact path, or a prefix followed by `/**`. */
+  pathname: string;
+}
+
+export const CATALOGUE_IMAGE_PATTERNS: RemoteImagePattern[] = [
+  {protocol: 'https', hostname: 'placehold.co', port: '', pathname: '/**'},
+  {protocol: 'https', hostname: 'images.unsplash.com', port: '', pathname: '/**'},
+  {protocol: 'https', hostname: 'via.placeholder.com', port: '', pathname: '/**'},
+];
+
+function matchesHostname(pattern: string, hostname: string): boolean {
+  if (pattern.startsWith('**.')) {
+    return hostname.endsWith(pattern.slice(2));
+  }
+  if (pattern.startsWith('*.')) {
+    const suffix = pattern.slice(1);
+    return hostname.endsWith(suffix) && !hostname.slice(0, -suffix.length).includes('.');
+  }
+  return hostname === pattern;
+}
+
+function matchesPathname(pattern: string, pathname: string): boolean {
+  if (pattern.endsWith('/**')) {
+    const prefix = pattern.slice(0, -2);
+    return pathname.startsWith(prefix);
+  }
+  return pathname === pattern;
+}
+
+export function isCatalogueImageUrl(url: string | URL): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  // Credentials in the URL are never needed for a public image and can confuse host checks downstream.
+  if (parsed.username || parsed.password) {
+    return false;
+  }
+  return CATALOGUE_IMAGE_PATTERNS.some(
+    pattern =>
+      parsed.protocol === `${pattern.protocol}:` &&
+      parsed.port === pattern.port &&
+      matchesHostname(pattern.hostname, parsed.hostname) &&
+      matchesPathname(pattern.pathname, parsed.pathname)
+  );
+}
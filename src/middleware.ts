@@ -0,0 +1,26 @@
+/**
+ * Gives every visitor an anonymous session cookie, which the AI rate limiter
+ * (`src/ai/rate-limit/limiter.ts`) keys their budgets by.
+ */
+
+import {NextResponse, type NextRequest} from 'next/server';
+import {SESSION_COOKIE} from '@/ai/rate-limit/session';
+
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 30;
+
+export function middleware(request: NextRequest) {
+  const response = NextResponse.next();
+  if (!request.cookies.has(SESSION_COOKIE)) {
+    response.cookies.set(SESSION_COOKIE, crypto.randomUUID(), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: SESSION_MAX_AGE_SECONDS,
+    });
+  }
+  return response;
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+};
@@ -0,0 +1,4 @@
+// The Node WASM build of face-api ships no declarations of its own; it has the same API as the package entry.
+declare module '@vladmandic/face-api/dist/face-api.node-wasm.js' {
+  export * from '@vladmandic/face-api';
+}